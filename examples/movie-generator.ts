@@ -21,7 +21,7 @@ const MovieSchema = z.object({
   id: z.string(),
   title: z.string().describe('the title of the movie. mostly avoid "The" as the first word.'),
   genre: z.string(),
-  releaseDate: z.date(),
+  releaseDate: z.string().date(),
   director: z.string(),
   description: z.string().describe("a 2-3 sentence description of the movie (no spoilers)"),
   cast: z.array(z.string()),
@@ -82,6 +82,7 @@ async function main() {
     },
     logging: "debug",
     outFile: "examples/movies.json",
+    validate: true,
   });
 
   console.log("Tracking progress via onProgress callback...");
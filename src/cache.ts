@@ -0,0 +1,102 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { MessageData } from "genkit";
+
+/**
+ * - `record`: always call the model and store the response
+ * - `replay`: only serve responses from the cache, failing on a cache miss
+ * - `auto`: serve from the cache when possible, otherwise call the model and store the response
+ */
+export type ResponseCacheMode = "record" | "replay" | "auto";
+
+export interface ResponseCacheOptions {
+  /** Directory where cached responses are stored (default: ".genthetic/cache") */
+  dir?: string;
+
+  /** Cache mode (default: "auto") */
+  mode?: ResponseCacheMode;
+}
+
+/**
+ * The parts of a generate call that identify a cached response.
+ */
+export interface CachedRequest {
+  model: string;
+  config?: Record<string, any>;
+  messages: MessageData[];
+  jsonSchema: Record<string, any>;
+}
+
+/**
+ * Error thrown in `replay` mode when no cached response exists for a request.
+ */
+export class ResponseCacheMissError extends Error {
+  constructor(
+    readonly key: string,
+    readonly file: string,
+  ) {
+    super(
+      `Response cache miss for key ${key} (expected ${file}). Run in "record" or "auto" mode to populate the cache.`,
+    );
+    this.name = "ResponseCacheMissError";
+  }
+}
+
+/**
+ * On-disk cache of model responses keyed by the model, messages and output schema of a request.
+ */
+export class ResponseCache {
+  readonly dir: string;
+  readonly mode: ResponseCacheMode;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.dir = options.dir ?? ".genthetic/cache";
+    this.mode = options.mode ?? "auto";
+  }
+
+  /**
+   * Compute the cache key for a request
+   */
+  key(request: CachedRequest): string {
+    return createHash("sha256").update(JSON.stringify(request)).digest("hex");
+  }
+
+  private file(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+
+  /**
+   * Look up the cached output for a request. Returns undefined when the model should be called.
+   * @throws ResponseCacheMissError in replay mode when no cached response exists
+   */
+  async read<O = unknown>(request: CachedRequest): Promise<O | undefined> {
+    if (this.mode === "record") return undefined;
+
+    const key = this.key(request);
+    const file = this.file(key);
+    try {
+      const entry = JSON.parse(await readFile(file, "utf8"));
+      return entry.output as O;
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+      if (this.mode === "replay") throw new ResponseCacheMissError(key, file);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store the output for a request. Writes atomically so that concurrent readers never see
+   * partially-written entries. Does nothing in replay mode.
+   */
+  async write(request: CachedRequest, output: unknown): Promise<void> {
+    if (this.mode === "replay") return;
+
+    const key = this.key(request);
+    const file = this.file(key);
+    const tmpFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(tmpFile, JSON.stringify({ request, output }, null, 2), "utf8");
+    await rename(tmpFile, file);
+  }
+}
@@ -0,0 +1,96 @@
+import { appendFileSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+
+/**
+ * Progress of a synthesis job saved to disk, used to resume interrupted jobs.
+ *
+ * Checkpoint files hold one JSON object per line: the job's header, then a line for each batch as
+ * it completes, so that saving a batch doesn't rewrite the batches saved before it.
+ */
+export interface Checkpoint<T = any> {
+  version: 2;
+
+  /** Name of the synthesized type */
+  type: string;
+
+  /** The job's seed, reused on resume so remaining batches get the same derived seeds */
+  seed: number;
+
+  batchSize: number;
+  batchCount: number;
+  count: number;
+
+  /** Completed batches, in the order they completed */
+  batches: CheckpointBatch<T>[];
+}
+
+/**
+ * A completed batch saved to a checkpoint.
+ */
+export interface CheckpointBatch<T = any> {
+  batchNumber: number;
+
+  /** Items of the batch (including `__hints`) */
+  items: T[];
+
+  /** Outputs of the batch's stages with `cacheOutput` enabled, by stage index */
+  cachedStageOutputs: Record<number, T[]>;
+
+  /** Items of the batch that failed validation */
+  invalidItems: Array<{ batchNumber: number; item: T; errors: string[] }>;
+
+  /** Entries of the job's store when the batch was saved, restored from the last batch saved */
+  store?: Array<[string, unknown]>;
+}
+
+type CheckpointHeader = Omit<Checkpoint, "batches">;
+
+/**
+ * Read a checkpoint file. Returns undefined if the file doesn't exist. A batch line cut short by a
+ * crash while it was being written is ignored.
+ */
+export function readCheckpoint<T>(file: string): Checkpoint<T> | undefined {
+  let contents: string;
+  try {
+    contents = readFileSync(file, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  const lines = contents.split("\n").filter((line) => line.trim());
+  const header = JSON.parse(lines[0] ?? "null");
+  if (header?.version !== 2) {
+    throw new Error(
+      `Unsupported checkpoint file ${file} (expected version 2, found ${JSON.stringify(header?.version)})`,
+    );
+  }
+
+  const batches: CheckpointBatch<T>[] = [];
+  for (const [index, line] of lines.slice(1).entries()) {
+    try {
+      batches.push(JSON.parse(line));
+    } catch (error) {
+      if (index < lines.length - 2) throw new Error(`Corrupt checkpoint file ${file}`);
+    }
+  }
+  return { ...(header as CheckpointHeader), batches };
+}
+
+/**
+ * Write a checkpoint file, replacing any existing one. Writes atomically so that a crash mid-write
+ * never leaves a corrupt checkpoint behind.
+ */
+export function writeCheckpoint<T>(file: string, checkpoint: Checkpoint<T>): void {
+  const { batches, ...header } = checkpoint;
+  const lines = [header, ...batches].map((line) => `${JSON.stringify(line)}\n`);
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmpFile, lines.join(""), "utf8");
+  renameSync(tmpFile, file);
+}
+
+/**
+ * Add a completed batch to a checkpoint file written by `writeCheckpoint()`.
+ */
+export function appendCheckpointBatch<T>(file: string, batch: CheckpointBatch<T>): void {
+  appendFileSync(file, `${JSON.stringify(batch)}\n`, "utf8");
+}
@@ -0,0 +1,246 @@
+import { parseArgs } from "node:util";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  Genthetic,
+  type SynthesisJobProgress,
+  type SynthesizeOptions,
+  type TypeDefinition,
+} from "./genthetic.js";
+
+const USAGE = `Usage: genthetic <command> [options]
+
+Commands:
+  run <file>    Synthesize a type defined in a module or YAML/JSON definition file
+  list <file>   List the types defined in a module or definition file and their stages
+
+Options for run:
+  --type <name>         Type to synthesize (required when the module defines several)
+  --count <n>           Number of items to generate
+  --batches <n>         Number of batches to generate
+  --batch-size <n>      Size of each batch
+  --out <file>          Output file (format from extension: .json, .jsonl, .csv, ...)
+  --format <format>     Output format, overriding the file extension
+  --concurrency <n>     Maximum concurrent batches
+  --seed <n>            Seed for reproducible runs
+  --checkpoint <file>   Save progress to a checkpoint file
+  --resume              Resume from the checkpoint file
+  --quiet               Don't show progress
+
+Results are printed to stdout as JSON when --out is not given.
+`;
+
+// Where the CLI writes output; replaced in tests
+export interface CliIO {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown; isTTY?: boolean };
+}
+
+/**
+ * Import a module of type definitions, or load a YAML or JSON definition file. TypeScript modules
+ * are loaded with tsx when it's installed.
+ */
+async function loadModule(file: string): Promise<Record<string, unknown>> {
+  if (/\.(ya?ml|json)$/i.test(file)) {
+    const type = await new Genthetic().loadType(file);
+    return { [type.name]: type };
+  }
+
+  const url = pathToFileURL(resolve(file)).href;
+  try {
+    return await import(url);
+  } catch (error: any) {
+    if (error?.code !== "ERR_UNKNOWN_FILE_EXTENSION") throw error;
+
+    let register: () => unknown;
+    try {
+      ({ register } = await import("tsx/esm/api" as string));
+    } catch {
+      throw new Error(`Cannot load ${file}. Install tsx to load TypeScript modules.`);
+    }
+    register();
+    // Failed imports are cached, so import under a different URL
+    return await import(`${url}?tsx`);
+  }
+}
+
+/**
+ * Find the type definitions exported by a module, by type name. Matches on shape rather than
+ * with instanceof so that modules importing a different copy of genthetic still work.
+ */
+function findTypes(module: Record<string, unknown>): Map<string, TypeDefinition<any>> {
+  const types = new Map<string, TypeDefinition<any>>();
+  for (const value of Object.values(module)) {
+    const candidate = value as Partial<TypeDefinition<any>> | undefined;
+    if (
+      typeof candidate?.name === "string" &&
+      Array.isArray(candidate.stages) &&
+      typeof candidate.synthesize === "function"
+    ) {
+      types.set(candidate.name, candidate as TypeDefinition<any>);
+    }
+  }
+  return types;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Render a one-line progress bar, e.g. `Movie [########------------] 20/50 batches 1m 4s (ETA 1m 36s)`
+ */
+export function formatProgress(name: string, progress: SynthesisJobProgress, width = 20): string {
+  const { batchesComplete, batchCount, elapsedTime } = progress;
+  const filled = Math.round((batchesComplete / batchCount) * width);
+  const bar = "#".repeat(filled) + "-".repeat(width - filled);
+  const eta =
+    batchesComplete > 0 && batchesComplete < batchCount
+      ? ` (ETA ${formatDuration((elapsedTime / batchesComplete) * (batchCount - batchesComplete))})`
+      : "";
+  return `${name} [${bar}] ${batchesComplete}/${batchCount} batches ${formatDuration(
+    elapsedTime,
+  )}${eta}`;
+}
+
+function integer(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) throw new Error(`--${option} must be an integer`);
+  return parsed;
+}
+
+async function list(file: string, io: CliIO) {
+  const types = findTypes(await loadModule(file));
+  if (!types.size) throw new Error(`No type definitions are exported by ${file}`);
+
+  for (const type of types.values()) {
+    const fields = Object.keys(type.jsonSchema?.properties ?? {});
+    io.stdout.write(`${type.name}${fields.length ? ` (${fields.join(", ")})` : ""}\n`);
+    if (type.dependencies.size) {
+      const dependencies = [...type.dependencies].map((dependency) => dependency.name);
+      io.stdout.write(`  depends on: ${dependencies.join(", ")}\n`);
+    }
+    type.stages.forEach((stage, index) => {
+      const label = [stage.kind ?? "stage", stage.name && `"${stage.name}"`]
+        .filter(Boolean)
+        .join(" ");
+      io.stdout.write(`  ${index + 1}. ${label}${stage.cacheOutput ? " (cached output)" : ""}\n`);
+    });
+  }
+}
+
+async function run(file: string, values: Record<string, any>, io: CliIO) {
+  const types = findTypes(await loadModule(file));
+  if (!types.size) throw new Error(`No type definitions are exported by ${file}`);
+
+  let type: TypeDefinition<any> | undefined;
+  if (values.type) {
+    type = types.get(values.type);
+    if (!type) {
+      throw new Error(
+        `Type "${values.type}" not found in ${file}. Available types: ${[...types.keys()].join(", ")}`,
+      );
+    }
+  } else if (types.size === 1) {
+    type = [...types.values()][0];
+  } else {
+    throw new Error(
+      `${file} defines several types; choose one with --type (${[...types.keys()].join(", ")})`,
+    );
+  }
+
+  // Redraw the progress line in place on terminals, otherwise log each completed batch
+  let lastBatchesComplete = -1;
+  const onProgress = (progress: SynthesisJobProgress) => {
+    if (values.quiet) return;
+    if (io.stderr.isTTY) {
+      io.stderr.write(`\r\x1b[K${formatProgress(type.name, progress)}`);
+    } else if (progress.batchesComplete !== lastBatchesComplete) {
+      lastBatchesComplete = progress.batchesComplete;
+      io.stderr.write(`${formatProgress(type.name, progress)}\n`);
+    }
+  };
+
+  const options: SynthesizeOptions = {
+    count: integer(values.count, "count"),
+    batches: integer(values.batches, "batches"),
+    batchSize: integer(values["batch-size"], "batch-size"),
+    outFile: values.out,
+    format: values.format,
+    concurrency: integer(values.concurrency, "concurrency"),
+    seed: integer(values.seed, "seed"),
+    checkpoint: values.checkpoint,
+    resume: values.resume,
+    // Job logs go to stdout, so keep them out of results printed there
+    logging: values.quiet || !values.out ? "none" : "warning",
+    onProgress,
+  };
+
+  // Types that reference other types need their dependencies synthesized first, with the same
+  // seed so that seeded runs stay reproducible
+  const results = type.dependencies.size
+    ? (
+        await type.genthetic.synthesizeAll([[type, options]], {
+          seed: options.seed,
+          logging: options.logging,
+        })
+      )[type.name]
+    : await type.synthesize(options).complete();
+
+  if (!values.quiet && io.stderr.isTTY) io.stderr.write("\n");
+  if (!values.out) io.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+}
+
+/**
+ * Run the genthetic command-line interface. Returns the process exit code.
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = { stdout: process.stdout, stderr: process.stderr },
+): Promise<number> {
+  try {
+    const { positionals, values } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        type: { type: "string" },
+        count: { type: "string" },
+        batches: { type: "string" },
+        "batch-size": { type: "string" },
+        out: { type: "string" },
+        format: { type: "string" },
+        concurrency: { type: "string" },
+        seed: { type: "string" },
+        checkpoint: { type: "string" },
+        resume: { type: "boolean" },
+        quiet: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+
+    const [command, file] = positionals;
+    if (values.help || !command) {
+      io.stdout.write(USAGE);
+      return 0;
+    }
+    if ((command === "run" || command === "list") && !file) {
+      throw new Error(`Missing module file: genthetic ${command} <file>`);
+    }
+
+    switch (command) {
+      case "run":
+        await run(file, values, io);
+        return 0;
+      case "list":
+        await list(file, io);
+        return 0;
+      default:
+        throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    }
+  } catch (error: any) {
+    io.stderr.write(`\x1b[31m❌ [Genthetic] ${error?.message ?? error}\x1b[0m\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,54 @@
+import type { StageContext } from "./genthetic.js";
+
+/**
+ * Fill value that leaves a field out of the item, removing any value set by an earlier stage. In
+ * arrays, the element is left out.
+ */
+export const OMIT: unique symbol = Symbol("genthetic.omit");
+
+const BRANCHES = Symbol("genthetic.when");
+
+/**
+ * A value in a fill shape: a value, a function of the item and stage context, or a nested shape.
+ */
+export type FillValue =
+  | ((item: any, context: StageContext<any>) => unknown)
+  | { [key: string]: FillValue }
+  | FillValue[]
+  | object
+  | string
+  | number
+  | boolean
+  | symbol
+  | null
+  | undefined;
+
+/**
+ * A fill function that resolves to one of two fill values, depending on the item.
+ */
+export type ConditionalFn = ((item: any, context: StageContext<any>) => unknown) & {
+  [BRANCHES]: [FillValue, FillValue];
+};
+
+/**
+ * Fill a field with `shape` for items that match `predicate`, and with `otherwise` (default:
+ * `OMIT`) for the rest. `shape` and `otherwise` can be values, functions or nested shapes, and the
+ * predicate can read fields set earlier in the same `.fill()` call, e.g.
+ * `shippedAt: when((order) => order.status === "shipped", () => new Date().toISOString())`.
+ */
+export function when<I = any>(
+  predicate: (item: I, context: StageContext<any>) => boolean | Promise<boolean>,
+  shape: FillValue,
+  otherwise: FillValue = OMIT,
+): ConditionalFn {
+  const fn = async (item: I, context: StageContext<any>) =>
+    (await predicate(item, context)) ? shape : otherwise;
+  return Object.assign(fn, { [BRANCHES]: [shape, otherwise] as [FillValue, FillValue] });
+}
+
+/**
+ * Get the fill values a `when()` helper chooses between, if the value was created with `when()`.
+ */
+export function conditionalBranches(value: unknown): [FillValue, FillValue] | undefined {
+  return typeof value === "function" ? (value as Partial<ConditionalFn>)[BRANCHES] : undefined;
+}
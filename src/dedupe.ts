@@ -0,0 +1,205 @@
+/**
+ * How a dedupe stage compares values: `exact` requires equal values, `normalized` ignores case,
+ * accents, punctuation, extra whitespace and a leading "the", "a" or "an", and `fuzzy` also
+ * matches similar values.
+ */
+export type DedupeMode = "exact" | "normalized" | "fuzzy";
+
+/**
+ * What a dedupe stage does with duplicates: `drop` removes them from the batch, `regenerate`
+ * asks the model for new values of the compared fields, and `flag` keeps them.
+ */
+export type DedupeAction = "drop" | "regenerate" | "flag";
+
+/**
+ * Options for a dedupe stage.
+ */
+export interface DedupeOptions {
+  /** Fields compared between items. Items are duplicates when all of these fields match. */
+  fields: string[];
+
+  /** How values are compared (default: "normalized") */
+  mode?: DedupeMode;
+
+  /** Similarity from 0 to 1 at which fuzzy values match (default: 0.85) */
+  threshold?: number;
+
+  /** What to do with duplicates (default: "drop") */
+  action?: DedupeAction;
+
+  /** Times duplicates are regenerated before they're dropped (default: 3) */
+  maxRegenerations?: number;
+
+  /** Additional instructions for regeneration requests */
+  instructions?: string;
+}
+
+/**
+ * An item found to duplicate an earlier item of the job.
+ */
+export interface DuplicateItem<T> {
+  batchNumber: number;
+  /** The duplicate, as it was before being dropped or regenerated */
+  item: T;
+  /** The earlier item it duplicates */
+  duplicateOf: T;
+  /** Similarity of the compared fields, from 0 to 1 (always 1 outside fuzzy mode) */
+  similarity: number;
+  /** What the dedupe stage did with the item. Duplicates still found after regenerating are dropped. */
+  action: DedupeAction;
+}
+
+/**
+ * Normalize text for comparison: lowercase, without accents, punctuation, extra whitespace or a
+ * leading article. "The Last Frontier!" and "last frontier" normalize to the same text.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^(the|a|an) /, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two texts from 0 to 1, the greater of their token Jaccard similarity (shared
+ * words, in any order) and their Levenshtein similarity (edit distance), after normalizing them.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) return 1;
+
+  const leftTokens = new Set(left.split(" "));
+  const rightTokens = new Set(right.split(" "));
+  const shared = [...leftTokens].filter((token) => rightTokens.has(token)).length;
+  const jaccard = shared / (leftTokens.size + rightTokens.size - shared);
+
+  const edits = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+  return Math.max(jaccard, edits);
+}
+
+/**
+ * Items kept by a job's dedupe stages, shared by all of its batches, for finding duplicates of
+ * new items. Fuzzy lookups compare against every kept item. Duplicates found are recorded in
+ * `duplicates`, which is shared with the job.
+ */
+export class DedupeIndex<T extends Record<string, any>> {
+  private readonly mode: DedupeMode;
+  private readonly threshold: number;
+  // Kept items by the key of their compared values
+  private readonly items = new Map<string, T>();
+  // Numbers of the batches that kept items were added for, by the same keys
+  private readonly batchNumbers = new Map<string, number>();
+
+  constructor(
+    readonly fields: string[],
+    options: { mode?: DedupeMode; threshold?: number } = {},
+    readonly duplicates: DuplicateItem<T>[] = [],
+  ) {
+    this.mode = options.mode ?? "normalized";
+    this.threshold = options.threshold ?? 0.85;
+  }
+
+  /** Number of kept items */
+  get size(): number {
+    return this.items.size;
+  }
+
+  private value(item: T, field: string): unknown {
+    const value = item[field];
+    return this.mode !== "exact" && typeof value === "string" ? normalizeText(value) : value;
+  }
+
+  private key(item: T): string {
+    return JSON.stringify(this.fields.map((field) => this.value(item, field) ?? null));
+  }
+
+  /**
+   * Find a kept item that the given item duplicates, with the similarity of their compared fields
+   */
+  find(item: T): { item: T; similarity: number } | undefined {
+    const match = this.items.get(this.key(item));
+    if (match) return { item: match, similarity: 1 };
+    if (this.mode !== "fuzzy") return;
+
+    let best: { item: T; similarity: number } | undefined;
+    for (const other of this.items.values()) {
+      let similarity = 1;
+      for (const field of this.fields) {
+        const [a, b] = [item[field], other[field]];
+        const fieldSimilarity =
+          typeof a === "string" && typeof b === "string"
+            ? textSimilarity(a, b)
+            : Number(JSON.stringify(a) === JSON.stringify(b));
+        similarity = Math.min(similarity, fieldSimilarity);
+        if (similarity < this.threshold) break;
+      }
+      if (similarity >= this.threshold && similarity > (best?.similarity ?? 0)) {
+        best = { item: other, similarity };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Keep an item, so that later items are compared with it. Items kept for a batch numbered
+   * `batchNumber` can be removed with `removeBatch()`.
+   */
+  add(item: T, batchNumber?: number): void {
+    const key = this.key(item);
+    this.items.set(key, item);
+    if (batchNumber === undefined) this.batchNumbers.delete(key);
+    else this.batchNumbers.set(key, batchNumber);
+  }
+
+  /** Stop keeping an item, e.g. when its batch is retried */
+  remove(item: T): void {
+    const key = this.key(item);
+    if (this.items.get(key) !== item) return;
+    this.items.delete(key);
+    this.batchNumbers.delete(key);
+  }
+
+  /**
+   * Stop keeping the items added for a batch, except those matching the `kept` items, e.g. when
+   * the batch fails or items are dropped before it's output
+   */
+  removeBatch(batchNumber: number, kept: T[] = []): void {
+    const keptKeys = new Set(kept.map((item) => this.key(item)));
+    for (const [key, owner] of this.batchNumbers) {
+      if (owner !== batchNumber || keptKeys.has(key)) continue;
+      this.items.delete(key);
+      this.batchNumbers.delete(key);
+    }
+  }
+
+  /**
+   * Pick up to `size` kept items' compared values at random, to show the model values to avoid
+   */
+  sample(size: number, random: () => number): Record<string, unknown>[] {
+    const items = [...this.items.values()];
+    for (let i = 0; i < Math.min(size, items.length); i++) {
+      const j = i + Math.floor(random() * (items.length - i));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items
+      .slice(0, size)
+      .map((item) => Object.fromEntries(this.fields.map((field) => [field, item[field]])));
+  }
+}
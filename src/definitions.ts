@@ -0,0 +1,372 @@
+import { readFile } from "node:fs/promises";
+import type {
+  FillShape,
+  GenerateOptions,
+  Genthetic,
+  StageContext,
+  TypeDefinition,
+} from "./genthetic.js";
+import { dateBetween, uniform, weighted } from "./distributions.js";
+
+// A fill value in a document: a literal, a nested shape, or a built-in generator
+export type FillValueDocument =
+  | string
+  | number
+  | boolean
+  | null
+  | FillValueDocument[]
+  | { pick: unknown[] }
+  | { weighted: Record<string, number> | Array<{ value: unknown; weight: number }> }
+  | { range: { min: number | string; max: number | string; integer?: boolean; precision?: number } }
+  | { template: string }
+  | { [field: string]: FillValueDocument };
+
+// A stage in a document. Each stage has exactly one of `fill` or `generate`.
+export type StageDocument =
+  | { name?: string; fill: Record<string, FillValueDocument> }
+  | {
+      name?: string;
+      generate: Pick<GenerateOptions, "fields" | "instructions" | "unique" | "temperature"> & {
+        model?: string;
+      };
+    };
+
+// A type definition written as YAML or JSON
+export interface TypeDocument {
+  name: string;
+  /** Description of the type, given to the model as the description of its schema */
+  description?: string;
+  /** JSON schema of the generated objects */
+  schema?: Record<string, any>;
+  batchSize?: number;
+  stages?: StageDocument[];
+}
+
+export interface DefinitionIssue {
+  /** Location of the problem in the document, e.g. `stages[0].fill.rating.range` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error thrown when a definition document can't be parsed or is invalid. Lists every problem
+ * found, each with its path in the document.
+ */
+export class DefinitionError extends Error {
+  constructor(
+    readonly issues: DefinitionIssue[],
+    readonly source?: string,
+  ) {
+    super(
+      `Invalid type definition${source ? ` in ${source}` : ""}:\n${issues
+        .map(({ path, message }) => `  ${path || "(root)"}: ${message}`)
+        .join("\n")}`,
+    );
+    this.name = "DefinitionError";
+  }
+}
+
+type FillFn = (item: any, context: StageContext<any>) => unknown;
+
+const GENERATORS = ["pick", "weighted", "range", "template"] as const;
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function getPath(value: any, path: string): unknown {
+  return path.split(".").reduce((current, key) => current?.[key], value);
+}
+
+/**
+ * Validates a document and builds the pieces of a type definition, recording issues instead of
+ * throwing so that all problems can be reported at once.
+ */
+class DocumentCompiler {
+  issues: DefinitionIssue[] = [];
+
+  issue(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  checkKeys(value: Record<string, any>, allowed: string[], path: string) {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        this.issue(join(path, key), `Unknown property. Expected one of: ${allowed.join(", ")}`);
+      }
+    }
+  }
+
+  compileFillValue(value: unknown, path: string): unknown {
+    if (Array.isArray(value)) {
+      return value.map((entry, index) => this.compileFillValue(entry, `${path}[${index}]`));
+    }
+    if (!isPlainObject(value)) return value;
+
+    const keys = Object.keys(value);
+    if (keys.length === 1 && (GENERATORS as readonly string[]).includes(keys[0])) {
+      return this.compileGenerator(keys[0] as (typeof GENERATORS)[number], value[keys[0]], path);
+    }
+    return this.compileFillShape(value, path);
+  }
+
+  // Keys of a shape are field names, even when a stage's only field is named like a generator
+  compileFillShape(value: Record<string, unknown>, path: string): Record<string, unknown> {
+    const shape: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      shape[key] = this.compileFillValue(entry, join(path, key));
+    }
+    return shape;
+  }
+
+  compileGenerator(
+    generator: (typeof GENERATORS)[number],
+    options: any,
+    parent: string,
+  ): FillFn | undefined {
+    const path = join(parent, generator);
+    switch (generator) {
+      case "pick": {
+        if (!Array.isArray(options) || !options.length) {
+          this.issue(path, "Expected a non-empty list of values");
+          return;
+        }
+        return weighted(options.map((value) => ({ value, weight: 1 })));
+      }
+
+      case "weighted": {
+        const choices: Array<{ value: unknown; weight: unknown }> = Array.isArray(options)
+          ? options
+          : isPlainObject(options)
+            ? Object.entries(options).map(([value, weight]) => ({ value, weight }))
+            : [];
+        if (!choices.length) {
+          this.issue(path, "Expected a map of values to weights or a list of { value, weight }");
+          return;
+        }
+        const issues = this.issues.length;
+        choices.forEach((choice, index) => {
+          const weight = isPlainObject(choice) ? choice.weight : undefined;
+          if (typeof weight !== "number" || weight < 0) {
+            const at = Array.isArray(options)
+              ? `${path}[${index}].weight`
+              : join(path, String(choice.value));
+            this.issue(at, "Expected a non-negative number");
+          }
+        });
+        const total = choices.reduce((sum, { weight }) => sum + (Number(weight) || 0), 0);
+        if (total <= 0) this.issue(path, "At least one weight must be positive");
+
+        return this.issues.length === issues
+          ? weighted(choices as Array<{ value: unknown; weight: number }>)
+          : undefined;
+      }
+
+      case "range":
+        return this.compileRange(options, path);
+
+      case "template": {
+        if (typeof options !== "string") {
+          this.issue(path, "Expected a string");
+          return;
+        }
+        // Placeholders refer to fields set by earlier stages, e.g. "{{genre}} movie"
+        return (item) =>
+          options.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, field) =>
+            String(getPath(item, field) ?? ""),
+          );
+      }
+    }
+  }
+
+  compileRange(options: any, path: string): FillFn | undefined {
+    if (!isPlainObject(options)) {
+      this.issue(path, "Expected { min, max }");
+      return;
+    }
+    this.checkKeys(options, ["min", "max", "integer", "precision"], path);
+    const { min, max, integer, precision } = options;
+
+    // Date ranges, e.g. { min: "2000-01-01", max: "2024-12-31" }
+    if (typeof min === "string" || typeof max === "string") {
+      const issues = this.issues.length;
+      const from = Date.parse(min);
+      const to = Date.parse(max);
+      if (Number.isNaN(from)) this.issue(join(path, "min"), "Expected a number or date");
+      if (Number.isNaN(to)) this.issue(join(path, "max"), "Expected a number or date");
+      if (from > to) this.issue(path, "min must not be greater than max");
+      return this.issues.length === issues ? dateBetween(min, max) : undefined;
+    }
+
+    const issues = this.issues.length;
+    if (typeof min !== "number") this.issue(join(path, "min"), "Expected a number or date");
+    if (typeof max !== "number") this.issue(join(path, "max"), "Expected a number or date");
+    if (min > max) this.issue(path, "min must not be greater than max");
+    if (integer !== undefined && typeof integer !== "boolean") {
+      this.issue(join(path, "integer"), "Expected a boolean");
+    }
+    if (precision !== undefined && (!Number.isInteger(precision) || precision < 0)) {
+      this.issue(join(path, "precision"), "Expected a non-negative integer");
+    }
+    return this.issues.length === issues ? uniform({ min, max, integer, precision }) : undefined;
+  }
+
+  compileGenerate(options: unknown, path: string): GenerateOptions | undefined {
+    if (options === null || options === undefined) return {};
+    if (!isPlainObject(options)) {
+      this.issue(path, "Expected an object");
+      return;
+    }
+    this.checkKeys(options, ["fields", "instructions", "unique", "model", "temperature"], path);
+    const { fields, instructions, unique, model, temperature } = options;
+    if (
+      fields !== undefined &&
+      (!Array.isArray(fields) || fields.some((field) => typeof field !== "string"))
+    ) {
+      this.issue(join(path, "fields"), "Expected a list of field names");
+    }
+    if (instructions !== undefined && typeof instructions !== "string") {
+      this.issue(join(path, "instructions"), "Expected a string");
+    }
+    if (isPlainObject(unique)) {
+      const uniquePath = join(path, "unique");
+      this.checkKeys(unique, ["keys", "sampleSize", "maxRegenerations"], uniquePath);
+      const { keys, sampleSize, maxRegenerations } = unique;
+      if (
+        !Array.isArray(keys) ||
+        keys.length === 0 ||
+        keys.some((key) => typeof key !== "string")
+      ) {
+        this.issue(join(uniquePath, "keys"), "Expected a non-empty list of field names");
+      }
+      for (const [key, value] of Object.entries({ sampleSize, maxRegenerations })) {
+        if (value !== undefined && !(Number.isInteger(value) && (value as number) >= 0)) {
+          this.issue(join(uniquePath, key), "Expected a non-negative integer");
+        }
+      }
+    } else if (unique !== undefined && typeof unique !== "boolean") {
+      this.issue(join(path, "unique"), "Expected a boolean or an object with unique keys");
+    }
+    if (model !== undefined && typeof model !== "string") {
+      this.issue(join(path, "model"), "Expected a model name");
+    }
+    if (temperature !== undefined && typeof temperature !== "number") {
+      this.issue(join(path, "temperature"), "Expected a number");
+    }
+    return { fields, instructions, unique, model, temperature };
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Create a type definition from a parsed YAML or JSON document.
+ *
+ * @param genthetic The Genthetic instance that defines the type
+ * @param document The parsed document
+ * @param source Where the document came from, used in error messages
+ * @throws DefinitionError listing every problem in the document
+ */
+export function defineTypeFromDocument<T extends object = Record<string, any>>(
+  genthetic: Genthetic,
+  document: unknown,
+  source?: string,
+): TypeDefinition<T> {
+  const compiler = new DocumentCompiler();
+  if (!isPlainObject(document)) {
+    throw new DefinitionError([{ path: "", message: "Expected an object" }], source);
+  }
+
+  compiler.checkKeys(document, ["name", "description", "schema", "batchSize", "stages"], "");
+  const { name, description, schema, batchSize, stages = [] } = document;
+  if (typeof name !== "string" || !name) compiler.issue("name", "Expected a type name");
+  if (schema !== undefined && !isPlainObject(schema)) {
+    compiler.issue("schema", "Expected a JSON schema object");
+  }
+  if (description !== undefined && typeof description !== "string") {
+    compiler.issue("description", "Expected a string");
+  } else if (description !== undefined && schema === undefined) {
+    compiler.issue("description", 'Expected a "schema" for the description to describe');
+  }
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+    compiler.issue("batchSize", "Expected a positive integer");
+  }
+  if (!Array.isArray(stages)) compiler.issue("stages", "Expected a list of stages");
+
+  const compiled: Array<{ name?: string; fill: FillShape<T> } | { generate: GenerateOptions }> = [];
+  (Array.isArray(stages) ? stages : []).forEach((stage: unknown, index: number) => {
+    const path = `stages[${index}]`;
+    if (!isPlainObject(stage) || "fill" in stage === "generate" in stage) {
+      compiler.issue(path, 'Expected a stage with either "fill" or "generate"');
+      return;
+    }
+    compiler.checkKeys(stage, ["name", "fill" in stage ? "fill" : "generate"], path);
+    if (stage.name !== undefined && typeof stage.name !== "string") {
+      compiler.issue(join(path, "name"), "Expected a string");
+    }
+
+    if ("fill" in stage) {
+      if (!isPlainObject(stage.fill)) {
+        compiler.issue(join(path, "fill"), "Expected an object of fields");
+        return;
+      }
+      const fill = compiler.compileFillShape(stage.fill, join(path, "fill")) as FillShape<T>;
+      compiled.push({ name: stage.name, fill });
+    } else {
+      const generate = compiler.compileGenerate(stage.generate, join(path, "generate"));
+      if (generate) compiled.push({ generate: { ...generate, name: stage.name } });
+    }
+  });
+
+  if (compiler.issues.length) throw new DefinitionError(compiler.issues, source);
+
+  // The schema's own description takes precedence
+  const jsonSchema = description ? { description, ...schema } : schema;
+  const type = genthetic.defineType<T>({ name, jsonSchema, batchSize });
+  for (const stage of compiled) {
+    if ("fill" in stage) {
+      if (stage.name) type.fill(stage.name, stage.fill);
+      else type.fill(stage.fill);
+    } else {
+      type.generate(stage.generate);
+    }
+  }
+  return type;
+}
+
+/**
+ * Load a type definition from a YAML (`.yaml`, `.yml`) or JSON file.
+ *
+ * @throws DefinitionError if the file can't be parsed or the definition is invalid
+ */
+export async function loadTypeDefinition<T extends object = Record<string, any>>(
+  genthetic: Genthetic,
+  file: string,
+): Promise<TypeDefinition<T>> {
+  const contents = await readFile(file, "utf8");
+
+  let document: unknown;
+  if (/\.ya?ml$/i.test(file)) {
+    const { parseDocument } = await import("yaml");
+    const parsed = parseDocument(contents);
+    if (parsed.errors.length) {
+      throw new DefinitionError(
+        parsed.errors.map((error) => ({
+          path: error.linePos ? `line ${error.linePos[0].line}` : "",
+          message: error.message.split("\n")[0],
+        })),
+        file,
+      );
+    }
+    document = parsed.toJS();
+  } else {
+    try {
+      document = JSON.parse(contents);
+    } catch (error: any) {
+      throw new DefinitionError([{ path: "", message: error.message }], file);
+    }
+  }
+
+  return defineTypeFromDocument<T>(genthetic, document, file);
+}
@@ -0,0 +1,378 @@
+import type { StageContext } from "./genthetic.js";
+import { conditionalBranches } from "./conditional.js";
+import { createRandom } from "./random.js";
+
+/**
+ * Weights of categorical values: a map of values to weights, or a list of `{ value, weight }` for
+ * values that aren't strings. Weights don't need to add up to 1.
+ */
+export type Weights<V = unknown> = Record<string, number> | Array<{ value: V; weight: number }>;
+
+/**
+ * The target distribution of a field, as declared by a distribution helper or `stratify`.
+ */
+export type Distribution =
+  | { kind: "categorical"; weights: Array<{ value: unknown; weight: number }> }
+  | { kind: "uniform"; min: number; max: number; integer?: boolean }
+  | { kind: "normal"; mean: number; stdDev: number; min?: number; max?: number }
+  | { kind: "logNormal"; mu: number; sigma: number; min?: number; max?: number }
+  | { kind: "date"; from: string; to: string };
+
+const DISTRIBUTION = Symbol("genthetic.distribution");
+
+/**
+ * A fill function that draws values from a distribution.
+ */
+export type DistributionFn<V> = ((item: any, context: StageContext<any>) => V) & {
+  [DISTRIBUTION]: Distribution;
+};
+
+/**
+ * Get the distribution of a fill value, if it was created with a distribution helper.
+ */
+export function distributionOf(value: unknown): Distribution | undefined {
+  return typeof value === "function"
+    ? (value as Partial<DistributionFn<unknown>>)[DISTRIBUTION]
+    : undefined;
+}
+
+/**
+ * Find the distributions declared by the helpers in a fill shape, by field path (e.g.
+ * "details.runtime").
+ */
+export function collectDistributions(
+  shape: unknown,
+  distributions = new Map<string, Distribution>(),
+  path?: string,
+): Map<string, Distribution> {
+  const distribution = distributionOf(shape);
+  const branches = conditionalBranches(shape);
+  if (distribution && path) {
+    distributions.set(path, distribution);
+  } else if (branches) {
+    for (const branch of branches) collectDistributions(branch, distributions, path);
+  } else if (shape !== null && typeof shape === "object" && !Array.isArray(shape)) {
+    for (const [key, value] of Object.entries(shape)) {
+      if (key === "__hints") continue;
+      collectDistributions(value, distributions, path ? `${path}.${key}` : key);
+    }
+  }
+  return distributions;
+}
+
+function withDistribution<V>(
+  fn: (item: any, context: StageContext<any>) => V,
+  distribution: Distribution,
+): DistributionFn<V> {
+  return Object.assign(fn, { [DISTRIBUTION]: distribution });
+}
+
+function round(value: number, precision?: number): number {
+  return precision === undefined ? value : Number(value.toFixed(precision));
+}
+
+/**
+ * Turn weights into a list of `{ value, weight }`, checking that they're usable.
+ */
+export function normalizeWeights<V>(weights: Weights<V>): Array<{ value: V; weight: number }> {
+  const choices = Array.isArray(weights)
+    ? weights
+    : Object.entries(weights).map(([value, weight]) => ({ value: value as V, weight }));
+  if (choices.some(({ weight }) => typeof weight !== "number" || !(weight >= 0))) {
+    throw new Error("Weights must be non-negative numbers");
+  }
+  if (!choices.some(({ weight }) => weight > 0)) {
+    throw new Error("At least one weight must be positive");
+  }
+  return choices;
+}
+
+/**
+ * Pick values at random in proportion to their weights, e.g. `weighted({ refunded: 3, completed: 7 })`.
+ */
+export function weighted<V = string>(weights: Weights<V>): DistributionFn<V> {
+  const choices = normalizeWeights(weights);
+  const total = choices.reduce((sum, { weight }) => sum + weight, 0);
+
+  return withDistribution(
+    (_, context) => {
+      let target = context.random() * total;
+      for (const { value, weight } of choices) {
+        target -= weight;
+        if (target < 0) return value;
+      }
+      return choices[choices.length - 1].value;
+    },
+    { kind: "categorical", weights: choices },
+  );
+}
+
+/**
+ * Draw numbers uniformly between `min` and `max`. Integers include `max`.
+ */
+export function uniform(options: {
+  min: number;
+  max: number;
+  integer?: boolean;
+  precision?: number;
+}): DistributionFn<number> {
+  const { min, max, integer, precision } = options;
+  if (min > max) throw new Error("uniform(): min must not be greater than max");
+
+  return withDistribution(
+    (_, context) =>
+      integer
+        ? Math.floor(min + context.random() * (Math.floor(max) - min + 1))
+        : round(min + context.random() * (max - min), precision),
+    { kind: "uniform", min, max, integer },
+  );
+}
+
+// Draw from the standard normal distribution with the Box-Muller transform
+function standardNormal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Draw until the value is within bounds, clamping if that takes too long
+function bounded(draw: () => number, min = -Infinity, max = Infinity): number {
+  let value = draw();
+  for (let tries = 0; (value < min || value > max) && tries < 100; tries++) value = draw();
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Draw numbers from a normal distribution, e.g. `normal({ mean: 40, stdDev: 12, min: 18, max: 80 })`.
+ * Values outside `min` and `max` are drawn again.
+ */
+export function normal(options: {
+  mean: number;
+  stdDev: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  precision?: number;
+}): DistributionFn<number> {
+  const { mean, stdDev, min, max, integer, precision } = options;
+  if (!(stdDev >= 0)) throw new Error("normal(): stdDev must not be negative");
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error("normal(): min must not be greater than max");
+  }
+
+  return withDistribution(
+    (_, context) => {
+      const value = bounded(() => mean + stdDev * standardNormal(context.random), min, max);
+      return integer ? Math.round(value) : round(value, precision);
+    },
+    { kind: "normal", mean, stdDev, min, max },
+  );
+}
+
+/**
+ * Draw positive numbers whose logarithm is normally distributed, with mean `mu` and standard
+ * deviation `sigma`. Suits skewed values like prices and incomes: the median is `exp(mu)`.
+ */
+export function logNormal(options: {
+  mu: number;
+  sigma: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  precision?: number;
+}): DistributionFn<number> {
+  const { mu, sigma, min, max, integer, precision } = options;
+  if (!(sigma >= 0)) throw new Error("logNormal(): sigma must not be negative");
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error("logNormal(): min must not be greater than max");
+  }
+
+  return withDistribution(
+    (_, context) => {
+      const value = bounded(() => Math.exp(mu + sigma * standardNormal(context.random)), min, max);
+      return integer ? Math.round(value) : round(value, precision);
+    },
+    { kind: "logNormal", mu, sigma, min, max },
+  );
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Draw dates uniformly between `from` and `to`, as ISO strings. Dates given without a time (e.g.
+ * "2024-01-31") produce dates without a time.
+ */
+export function dateBetween(from: string | Date, to: string | Date): DistributionFn<string> {
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end)) throw new Error("dateBetween(): invalid date");
+  if (start > end) throw new Error("dateBetween(): from must not be after to");
+  const dateOnly =
+    typeof from === "string" &&
+    typeof to === "string" &&
+    DATE_ONLY.test(from) &&
+    DATE_ONLY.test(to);
+
+  return withDistribution(
+    (_, context) => {
+      const date = new Date(start + context.random() * (end - start));
+      return dateOnly ? date.toISOString().substring(0, 10) : date.toISOString();
+    },
+    { kind: "date", from: new Date(start).toISOString(), to: new Date(end).toISOString() },
+  );
+}
+
+/**
+ * Assign exactly proportioned values to `count` items, in a seeded random order. Counts are
+ * rounded with the largest remainder method so that they add up to `count`.
+ */
+export function allocateStrata<V>(weights: Weights<V>, count: number, seed: number): V[] {
+  const choices = normalizeWeights(weights);
+  const total = choices.reduce((sum, { weight }) => sum + weight, 0);
+
+  const quotas = choices.map(({ weight }) => (weight / total) * count);
+  const counts = quotas.map(Math.floor);
+  const byRemainder = quotas
+    .map((quota, index) => ({ index, remainder: quota - Math.floor(quota) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; i < count - counts.reduce((sum, n) => sum + n, 0); i++) {
+    counts[byRemainder[i].index]++;
+  }
+
+  const values = choices.flatMap(({ value }, index) => Array(counts[index]).fill(value) as V[]);
+  const random = createRandom(seed);
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  return values;
+}
+
+// Achieved versus target proportions of a categorical field
+export interface CategoricalReport {
+  kind: "categorical";
+  /** Number of items with a value */
+  count: number;
+  /** Target proportion of each value */
+  target: Record<string, number>;
+  /** Achieved proportion of each value, including values without a target */
+  achieved: Record<string, number>;
+  /** Largest difference between a value's target and achieved proportions */
+  maxDeviation: number;
+}
+
+// Achieved versus target statistics of a numeric field
+export interface NumericReport {
+  kind: "numeric";
+  count: number;
+  /** Mean and standard deviation of the distribution, ignoring its bounds */
+  target: { mean: number; stdDev: number; min?: number; max?: number };
+  achieved: { mean: number; stdDev: number; min: number; max: number };
+}
+
+// Achieved versus target range of a date field
+export interface DateReport {
+  kind: "date";
+  /** Number of items with a valid date */
+  count: number;
+  /** Number of items whose value isn't a valid date, left out of the report */
+  invalid: number;
+  target: { from: string; to: string };
+  /** Earliest and latest dates, unset when no item has a date */
+  achieved: { from?: string; to?: string };
+}
+
+/**
+ * Comparison of achieved and target distributions, by field path.
+ */
+export type DistributionReport = Record<string, CategoricalReport | NumericReport | DateReport>;
+
+function getPath(value: any, path: string): unknown {
+  return path.split(".").reduce((current, key) => current?.[key], value);
+}
+
+function categoryKey(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function targetStats(
+  distribution: Extract<Distribution, { kind: "uniform" | "normal" | "logNormal" }>,
+): NumericReport["target"] {
+  const { min, max } = distribution;
+  switch (distribution.kind) {
+    case "uniform": {
+      // Integers are drawn from a discrete uniform distribution
+      const n = distribution.integer ? Math.floor(distribution.max) - distribution.min + 1 : 0;
+      const stdDev = distribution.integer
+        ? Math.sqrt((n * n - 1) / 12)
+        : (distribution.max - distribution.min) / Math.sqrt(12);
+      return { mean: (distribution.min + distribution.max) / 2, stdDev, min, max };
+    }
+    case "normal":
+      return { mean: distribution.mean, stdDev: distribution.stdDev, min, max };
+    case "logNormal": {
+      const { mu, sigma } = distribution;
+      const mean = Math.exp(mu + (sigma * sigma) / 2);
+      return { mean, stdDev: mean * Math.sqrt(Math.exp(sigma * sigma) - 1), min, max };
+    }
+  }
+}
+
+/**
+ * Compare the values of items with their target distributions.
+ */
+export function distributionReport(
+  items: unknown[],
+  distributions: Map<string, Distribution>,
+): DistributionReport {
+  const report: DistributionReport = {};
+  for (const [path, distribution] of distributions) {
+    const values = items.map((item) => getPath(item, path)).filter((value) => value != null);
+
+    if (distribution.kind === "categorical") {
+      const total = distribution.weights.reduce((sum, { weight }) => sum + weight, 0);
+      const target: Record<string, number> = {};
+      for (const { value, weight } of distribution.weights) {
+        target[categoryKey(value)] = (target[categoryKey(value)] ?? 0) + weight / total;
+      }
+      const achieved: Record<string, number> = Object.fromEntries(
+        Object.keys(target).map((key) => [key, 0]),
+      );
+      for (const value of values) {
+        achieved[categoryKey(value)] = (achieved[categoryKey(value)] ?? 0) + 1 / values.length;
+      }
+      const maxDeviation = Math.max(
+        ...Object.keys(achieved).map((key) => Math.abs(achieved[key] - (target[key] ?? 0))),
+      );
+      report[path] = { kind: "categorical", count: values.length, target, achieved, maxDeviation };
+    } else if (distribution.kind === "date") {
+      const times = values.map((value) => new Date(value as string | number | Date).getTime());
+      const dates = times
+        .filter((time) => !Number.isNaN(time))
+        .map((time) => new Date(time).toISOString())
+        .sort();
+      report[path] = {
+        kind: "date",
+        count: dates.length,
+        invalid: values.length - dates.length,
+        target: { from: distribution.from, to: distribution.to },
+        achieved: { from: dates[0], to: dates[dates.length - 1] },
+      };
+    } else {
+      const numbers = values.map(Number).filter((value) => !Number.isNaN(value));
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+      const variance =
+        numbers.reduce((sum, value) => sum + (value - mean) ** 2, 0) / numbers.length;
+      report[path] = {
+        kind: "numeric",
+        count: numbers.length,
+        target: targetStats(distribution),
+        achieved: {
+          mean,
+          stdDev: Math.sqrt(variance),
+          min: numbers.reduce((min, value) => Math.min(min, value), Infinity),
+          max: numbers.reduce((max, value) => Math.max(max, value), -Infinity),
+        },
+      };
+    }
+  }
+  return report;
+}
@@ -1,99 +1,427 @@
-import { genkit, z } from "genkit";
-import { googleAI } from "@genkit-ai/google-genai";
-
-const ai = genkit({
-  model: googleAI.model(process.env.GEMINI_MODEL || "gemini-2.5-flash"),
-  plugins: [googleAI()],
-});
-
-const GenerateSyntheticDataInputSchema = z.object({
-  count: z.number().optional(),
-  data: z.array(z.any()).optional(),
-  existingData: z.array(z.any()).optional(),
-  fields: z.array(z.string()).optional(),
-  instructions: z.string().optional(),
-  schema: z.any(),
-  model: z.string().optional(),
-});
-
-export const generateSyntheticData = ai.defineFlow(
+import { genkit, type Genkit, type MessageData, type ModelArgument } from "genkit";
+import type { ResponseCache } from "./cache.js";
+import type { Throttler } from "./throttler.js";
+
+/**
+ * Input for a batched synthetic data generation call.
+ */
+export interface GenerateSyntheticDataInput {
+  count?: number;
+  data?: any[];
+  existingData?: any[];
+  fields?: string[];
+  instructions?: string;
+  schema: any;
+  model?: ModelArgument;
+  /** Seed passed to the model for more reproducible output (when supported by the model) */
+  seed?: number;
+  temperature?: number;
+}
+
+/**
+ * Creates the default Genkit instance backed by Google AI. The plugin is imported lazily so that
+ * merely importing genthetic doesn't require Gemini to be installed or configured.
+ */
+export async function createDefaultGenkit(): Promise<Genkit> {
+  const { googleAI } = await import("@genkit-ai/google-genai");
+  return genkit({
+    model: googleAI.model(process.env.GEMINI_MODEL || "gemini-2.5-flash"),
+    plugins: [googleAI()],
+  });
+}
+
+/**
+ * Builds the messages and output JSON schema for a synthetic data generation call.
+ */
+export function buildSyntheticDataRequest({
+  count,
+  data,
+  existingData,
+  schema,
+  instructions,
+  fields,
+}: GenerateSyntheticDataInput): { messages: MessageData[]; jsonSchema: Record<string, any> } {
+  const hasSeed = data?.some((item) => Object.keys(item).length > 0);
+  const hasHints = data?.some((item) => !!item.__hints);
+  const batchSize = data?.length || count || 10;
+
+  let prompt = `You are a synthetic data generation assistant. Your task is to generate ${batchSize} objects of plausible data based on the supplied schema and any additional input and configuration.`;
+
+  const seedPrompt = hasSeed
+    ? `\n\n## Partial Data\n\nUse the following data as the basis for your generation. You will generate one object corresponding to each of the objects in the supplied data. The generated objects should contain plausible fields based on the provided data. You MUST generate exactly the same number of objects as are supplied here. You will generate only new unique fields without copying the existing ones. The data you generate will be combined with the existing data to create the final result.\n\n${JSON.stringify(
+        data,
+        null,
+        2,
+      )}`
+    : "";
+
+  if (!existingData?.length) prompt += seedPrompt;
+
+  if (hasHints)
+    prompt += `\n\n## Hints\n\nItems in the provided data may include a "__hints" field. These are generation hints that you should keep in mind when generating the corresponding output data for that item only. The hints are purely informational and will not show up in the final result. The generated data should be guided both by the hints AND the partial data that has been provided.`;
+
+  if (instructions) prompt += `\n\n## User Instructions\n\n${instructions}`;
+
+  const newSchema = { ...schema };
+  if (fields) {
+    const newProps: Record<string, any> = {};
+    for (const field of fields) {
+      newProps[field] = schema.properties[field];
+    }
+    newSchema.properties = newProps;
+    newSchema.required = fields;
+  }
+
+  const messages: MessageData[] = existingData?.length
+    ? [
+        { role: "user", content: [{ text: prompt }] },
+        { role: "model", content: [{ text: JSON.stringify(existingData) }] },
+        {
+          role: "user",
+          content: [
+            {
+              text: `Please generate an additional ${batchSize} examples that are unique from the existing examples. ${seedPrompt}`,
+            },
+          ],
+        },
+      ]
+    : [{ role: "user", content: [{ text: prompt }] }];
+
+  return {
+    messages,
+    jsonSchema: {
+      type: "array",
+      items: newSchema,
+    },
+  };
+}
+
+/**
+ * Get a stable name for a model argument, used to identify requests.
+ */
+export function modelName(model?: ModelArgument): string {
+  if (!model) return "default";
+  if (typeof model === "string") return model;
+  return "__action" in model ? model.__action.name : model.name;
+}
+
+/**
+ * Options that apply to every model call made for a job.
+ */
+export interface GenerateCallOptions {
+  cache?: ResponseCache;
+  /** Receives events about the generate call, such as batch size mismatches */
+  onEvent?: (event: GenerateEvent) => void;
+  /** Aborts in-flight model calls */
+  signal?: AbortSignal;
+  /** Limits the rate of model calls, shared by every job of a Genthetic instance */
+  limiter?: Throttler;
+}
+
+/**
+ * A request to the model, as assembled by a generate call.
+ */
+export interface ModelRequest {
+  /** Name of the model, or "default" for the Genkit instance's default model */
+  model: string;
+  config?: Record<string, any>;
+  messages: MessageData[];
+  /** JSON schema of the expected output */
+  jsonSchema: Record<string, any>;
+}
+
+/**
+ * Events reported by generate calls.
+ */
+export type GenerateEvent =
+  | {
+      type: "count-mismatch";
+      /** Number of objects requested */
+      expected: number;
+      /** Number of objects returned by the first request */
+      received: number;
+      /** Whether follow-up requests produced exactly the expected number of objects */
+      recovered: boolean;
+    }
+  | {
+      // A model call completed. Not reported for responses served from the cache.
+      type: "usage";
+      model: string;
+      /** Token counts reported by the model (0 when the model doesn't report usage) */
+      inputTokens: number;
+      outputTokens: number;
+      latencyMs: number;
+    }
+  | {
+      // A request that would have been sent to the model, reported instead of calling it in dry runs
+      type: "request";
+      request: ModelRequest;
+    };
+
+/** Maximum number of follow-up requests for objects missing from a model response */
+const MAX_FOLLOW_UP_REQUESTS = 2;
+
+/**
+ * Build the model config for a generate call, omitting unset values.
+ */
+export function modelConfig({
+  seed,
+  temperature,
+}: {
+  seed?: number;
+  temperature?: number;
+}): Record<string, any> | undefined {
+  if (seed === undefined && temperature === undefined) return undefined;
+  return { seed, temperature };
+}
+
+/**
+ * Roughly estimate the input tokens of a request, at about four characters per token.
+ */
+function estimateTokens(messages: MessageData[], jsonSchema: Record<string, any>): number {
+  return Math.ceil((JSON.stringify(messages).length + JSON.stringify(jsonSchema).length) / 4);
+}
+
+/**
+ * Calls the model with a prepared request, returning the JSON output. The Genkit instance is only
+ * requested if the response isn't served from the cache.
+ */
+async function generateJson<O = Record<string, any>[]>(
+  ai: () => Promise<Genkit>,
   {
-    name: "generateSyntheticData",
-    inputSchema: GenerateSyntheticDataInputSchema,
-    outputSchema: z.array(z.record(z.any())),
+    model,
+    config,
+    messages,
+    jsonSchema,
+  }: {
+    model?: ModelArgument;
+    config?: Record<string, any>;
+    messages: MessageData[];
+    jsonSchema: Record<string, any>;
   },
-  async ({ count, data, existingData, schema, instructions, model, fields }) => {
-    const hasSeed = data?.some((item) => Object.keys(item).length > 0);
-    const hasHints = data?.some((item) => !!item.__hints);
-    const batchSize = data?.length || count || 10;
-
-    let prompt = `You are a synthetic data generation assistant. Your task is to generate ${batchSize} objects of plausible data based on the supplied schema and any additional input and configuration.`;
-
-    const seedPrompt = hasSeed
-      ? `\n\n## Partial Data\n\nUse the following data as the basis for your generation. You will generate one object corresponding to each of the objects in the supplied data. The generated objects should contain plausible fields based on the provided data. You MUST generate exactly the same number of objects as are supplied here. You will generate only new unique fields without copying the existing ones. The data you generate will be combined with the existing data to create the final result.\n\n${JSON.stringify(
-          data,
-          null,
-          2,
-        )}`
-      : "";
-
-    if (!existingData?.length) prompt += seedPrompt;
-
-    if (hasHints)
-      prompt += `\n\n## Hints\n\nItems in the provided data may include a "__hints" field. These are generation hints that you should keep in mind when generating the corresponding output data for that item only. The hints are purely informational and will not show up in the final result. The generated data should be guided both by the hints AND the partial data that has been provided.`;
-
-    if (instructions) prompt += `\n\n## User Instructions\n\n${instructions}`;
-
-    const newSchema = { ...schema };
-    if (fields) {
-      const newProps: Record<string, any> = {};
-      for (const field of fields) {
-        newProps[field] = schema.properties[field];
-      }
-      newSchema.properties = newProps;
-      newSchema.required = fields;
-    }
+  options: GenerateCallOptions,
+): Promise<O> {
+  options.signal?.throwIfAborted();
+  const cacheRequest = { model: modelName(model), config, messages, jsonSchema };
+
+  const cached = await options.cache?.read<O>(cacheRequest);
+  if (cached) return cached;
 
-    const messages = existingData?.length
-      ? [
-          { role: "user" as const, content: [{ text: prompt }] },
-          { role: "model" as const, content: [{ text: JSON.stringify(existingData) }] },
-          {
-            role: "user" as const,
-            content: [
-              {
-                text: `Please generate an additional ${batchSize} examples that are unique from the existing examples. ${seedPrompt}`,
-              },
-            ],
-          },
-        ]
-      : [{ role: "user" as const, content: [{ text: prompt }] }];
-
-    const { output } = await ai.generate({
-      model: `googleai/${model || "gemini-2.0-flash"}`,
+  const instance = await ai();
+  let latencyMs = 0;
+  const call = async () => {
+    const startTime = Date.now();
+    const response = await instance.generate({
+      model,
+      config,
       messages,
+      abortSignal: options.signal,
       output: {
         format: "json",
-        jsonSchema: {
-          type: "array",
-          items: newSchema,
-        },
+        jsonSchema,
       },
     });
+    latencyMs = Date.now() - startTime;
+    return response;
+  };
 
-    return output;
-  },
-);
+  // Rate limited calls count an estimate of their input tokens up front, corrected afterwards
+  const { limiter } = options;
+  const estimate = estimateTokens(messages, jsonSchema);
+  const response = limiter
+    ? await limiter.run(call, { tokens: estimate, signal: options.signal })
+    : await call();
+  const inputTokens = response.usage?.inputTokens ?? 0;
+  const outputTokens = response.usage?.outputTokens ?? 0;
+  if (inputTokens || outputTokens) limiter?.consumeTokens(inputTokens + outputTokens - estimate);
 
-export const generateSyntheticField = ai.defineFlow(
-  {
-    name: "generateSyntheticField",
-    inputSchema: z.object({
-      data: z.record(z.any()),
-      schema: z.record(z.any()),
-      instructions: z.string().optional(),
-    }),
-    outputSchema: z.object({}),
-  },
-  async () => {},
-);
+  const { output } = response;
+  options.onEvent?.({
+    type: "usage",
+    model: response.model ?? modelName(model),
+    inputTokens,
+    outputTokens,
+    latencyMs,
+  });
+
+  await options.cache?.write(cacheRequest, output);
+  return output;
+}
+
+/**
+ * Generates a batch of synthetic data objects. If the model returns the wrong number of objects,
+ * extra objects are dropped and follow-up requests are made for the missing ones.
+ */
+export async function generateSyntheticData(
+  ai: () => Promise<Genkit>,
+  input: GenerateSyntheticDataInput,
+  options: GenerateCallOptions = {},
+): Promise<Record<string, any>[]> {
+  const expected = input.data?.length || input.count || 10;
+  const response =
+    (await generateJson(
+      ai,
+      { model: input.model, config: modelConfig(input), ...buildSyntheticDataRequest(input) },
+      options,
+    )) ?? [];
+  const output = response.slice(0, expected);
+
+  // Objects are aligned by position, so the missing objects are always the trailing ones
+  for (let attempt = 0; attempt < MAX_FOLLOW_UP_REQUESTS && output.length < expected; attempt++) {
+    const missing = expected - output.length;
+    const followUp = await generateJson(
+      ai,
+      {
+        model: input.model,
+        config: modelConfig(input),
+        ...buildSyntheticDataRequest({
+          ...input,
+          count: missing,
+          data: input.data?.slice(output.length),
+        }),
+      },
+      options,
+    );
+    output.push(...(followUp ?? []).slice(0, missing));
+  }
+
+  if (response.length !== expected) {
+    options.onEvent?.({
+      type: "count-mismatch",
+      expected,
+      received: response.length,
+      recovered: output.length === expected,
+    });
+  }
+
+  return output;
+}
+
+/**
+ * Input for repairing objects that failed schema validation.
+ */
+export interface RepairSyntheticDataInput {
+  items: Record<string, any>[];
+  errors: string[][];
+  schema: any;
+  instructions?: string;
+  model?: ModelArgument;
+}
+
+/**
+ * Builds the messages and output JSON schema for repairing invalid objects.
+ */
+export function buildRepairRequest({
+  items,
+  errors,
+  schema,
+  instructions,
+}: RepairSyntheticDataInput): {
+  messages: MessageData[];
+  jsonSchema: Record<string, any>;
+} {
+  let prompt = `You are a synthetic data generation assistant. The following ${items.length} objects were generated for the supplied schema but failed validation. Return exactly ${items.length} corrected objects, in the same order, that fix the listed validation errors while keeping all valid values unchanged.`;
+
+  prompt += `\n\n## Objects\n\n${JSON.stringify(items, null, 2)}`;
+
+  prompt += `\n\n## Validation Errors\n\n${errors
+    .map((itemErrors, i) => itemErrors.map((error) => `- Object ${i}: ${error}`).join("\n"))
+    .join("\n")}`;
+
+  if (instructions) prompt += `\n\n## User Instructions\n\n${instructions}`;
+
+  return {
+    messages: [{ role: "user", content: [{ text: prompt }] }],
+    jsonSchema: {
+      type: "array",
+      items: schema,
+    },
+  };
+}
+
+/**
+ * Asks the model to correct objects that failed schema validation.
+ */
+export async function repairSyntheticData(
+  ai: () => Promise<Genkit>,
+  input: RepairSyntheticDataInput,
+  options: GenerateCallOptions = {},
+): Promise<Record<string, any>[]> {
+  return generateJson(ai, { model: input.model, ...buildRepairRequest(input) }, options);
+}
+
+/**
+ * Input for generating a single field of one object.
+ */
+export interface GenerateSyntheticFieldInput {
+  /** The field to generate */
+  field: string;
+  /** The object the field belongs to, limited to the fields relevant to the generation */
+  data: Record<string, any>;
+  /** JSON schema of the whole object; only the generated field's schema is sent to the model */
+  schema?: Record<string, any>;
+  instructions?: string;
+  model?: ModelArgument;
+  /** Seed passed to the model for more reproducible output (when supported by the model) */
+  seed?: number;
+  temperature?: number;
+}
+
+/**
+ * Builds the messages and output JSON schema for generating a single field of an object.
+ */
+export function buildSyntheticFieldRequest({
+  field,
+  data,
+  schema,
+  instructions,
+}: GenerateSyntheticFieldInput): { messages: MessageData[]; jsonSchema: Record<string, any> } {
+  const { __hints: hints, ...context } = data;
+  // Fields without a schema are usually free text
+  const fieldSchema = schema?.properties?.[field] ?? { type: "string" };
+
+  let prompt = `You are a synthetic data generation assistant. Your task is to generate a plausible value for the "${field}" field of an object, based on the supplied field schema and the other fields of the object.`;
+
+  if (Object.keys(context).length) {
+    prompt += `\n\n## Object\n\nThe value should be consistent with the object's other fields:\n\n${JSON.stringify(
+      context,
+      null,
+      2,
+    )}`;
+  }
+
+  if (hints) {
+    prompt += `\n\n## Hints\n\nKeep the following generation hints in mind. They are purely informational and will not show up in the final result.\n\n${JSON.stringify(
+      hints,
+      null,
+      2,
+    )}`;
+  }
+
+  if (instructions) prompt += `\n\n## User Instructions\n\n${instructions}`;
+
+  return {
+    messages: [{ role: "user", content: [{ text: prompt }] }],
+    jsonSchema: {
+      type: "object",
+      properties: { [field]: fieldSchema },
+      required: [field],
+    },
+  };
+}
+
+/**
+ * Generates a single field of one object, returning an object with just that field.
+ */
+export async function generateSyntheticField(
+  ai: () => Promise<Genkit>,
+  input: GenerateSyntheticFieldInput,
+  options: GenerateCallOptions = {},
+): Promise<Record<string, any>> {
+  const output = await generateJson<Record<string, any> | null>(
+    ai,
+    { model: input.model, config: modelConfig(input), ...buildSyntheticFieldRequest(input) },
+    options,
+  );
+  return { [input.field]: output?.[input.field] };
+}
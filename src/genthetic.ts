@@ -1,8 +1,59 @@
-import { z } from "genkit";
+import { z, type Genkit, type ModelArgument } from "genkit";
 import { toJsonSchema } from "genkit/schema";
-import { generateSyntheticData } from "./generate.js";
-import { writeFileSync } from "node:fs";
-import { Throttler } from "./throttler.js";
+import {
+  buildRepairRequest,
+  buildSyntheticDataRequest,
+  buildSyntheticFieldRequest,
+  createDefaultGenkit,
+  generateSyntheticData,
+  generateSyntheticField,
+  modelConfig,
+  modelName,
+  repairSyntheticData,
+  type GenerateCallOptions,
+  type GenerateEvent,
+  type GenerateSyntheticDataInput,
+  type GenerateSyntheticFieldInput,
+  type ModelRequest,
+  type RepairSyntheticDataInput,
+} from "./generate.js";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Throttler, isRateLimitError, isRetryableError, retryAfterMs } from "./throttler.js";
+import { mockSyntheticData, type MockModelOptions } from "./mock.js";
+import { ResponseCache, type ResponseCacheOptions } from "./cache.js";
+import { collectRefs } from "./relations.js";
+import { createRandom, deriveSeed } from "./random.js";
+import {
+  appendCheckpointBatch,
+  readCheckpoint,
+  writeCheckpoint,
+  type CheckpointBatch,
+} from "./checkpoint.js";
+import { createOutputWriter, type OutputWriter } from "./writers.js";
+import type { Sink } from "./sinks.js";
+import { defineTypeFromDocument, loadTypeDefinition, type TypeDocument } from "./definitions.js";
+import {
+  addUsage,
+  emptyUsage,
+  findPricing,
+  type ModelPricing,
+  type SynthesisBudget,
+  type TokenUsage,
+  type UsageReport,
+} from "./usage.js";
+import { UniqueIndex, type UniqueOptions } from "./unique.js";
+import { JobStore } from "./store.js";
+import { OMIT } from "./conditional.js";
+import { DedupeIndex, type DedupeMode, type DedupeOptions, type DuplicateItem } from "./dedupe.js";
+import {
+  allocateStrata,
+  collectDistributions,
+  distributionReport,
+  normalizeWeights,
+  type Distribution,
+  type DistributionReport,
+  type Weights,
+} from "./distributions.js";
 
 /**
  * Type that adds an optional __hints property to an object type
@@ -12,6 +63,9 @@ export type WithHints<T> = T & {
   __hints?: Record<string, any>;
 };
 
+// Omit that distributes over union members, so discriminated unions stay discriminated
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
 function stripHints<T = unknown>(data: any[]): T[] {
   // Strip __hints from final results
   return data.map((item) => {
@@ -23,14 +77,52 @@ function stripHints<T = unknown>(data: any[]): T[] {
   });
 }
 
-function writeData(file: string | undefined, data: any[]) {
-  if (!file) return;
-  writeFileSync(file, JSON.stringify(data, null, 2), { encoding: "utf8" });
+/**
+ * Validate an item against a Zod schema, returning human-readable error messages (empty if valid).
+ */
+function validationErrors(schema: z.ZodTypeAny, item: any): string[] {
+  const result = schema.safeParse(stripHints([item])[0]);
+  if (result.success) return [];
+  return result.error.issues.map(
+    (issue) => `${issue.path.length ? `\`${issue.path.join(".")}\`: ` : ""}${issue.message}`,
+  );
+}
+
+/**
+ * Get the seed for a model request, derived from the stage's seed and `parts`. Only explicitly
+ * seeded jobs seed the model, so that the requests of unseeded jobs stay cacheable.
+ */
+function modelSeed<T extends object>(
+  context: StageContext<T>,
+  ...parts: Array<string | number>
+): number | undefined {
+  if (context.options.seed === undefined) return undefined;
+  return parts.length ? deriveSeed(context.seed, ...parts) : context.seed;
+}
+
+/**
+ * Copy a stage context with its own seed, random number generator and (lazily created) faker.
+ */
+function withSeed<T extends object>(context: StageContext<T>, seed: number): StageContext<T> {
+  const seeded = Object.defineProperties(
+    {} as StageContext<T>,
+    Object.getOwnPropertyDescriptors(context),
+  );
+  seeded.seed = seed;
+  seeded.random = createRandom(seed);
+
+  let faker: any;
+  return Object.defineProperty(seeded, "faker", {
+    get: () => (faker ??= context.options.faker?.(seed)),
+    enumerable: true,
+    configurable: true,
+  });
 }
 
 /**
  * Recursively resolves an object with function values.
- * Returns a new object with all functions resolved to their return values.
+ * Returns a new object with all functions resolved to their return values. Keys and array
+ * elements that resolve to `OMIT` are left out.
  *
  * @param obj The object to resolve
  * @param item Optional item to pass to functions (used in fill)
@@ -46,7 +138,7 @@ export async function resolveObject<T, I = any, C = any>(
   }
 
   if (Array.isArray(obj)) {
-    return (await Promise.all(
+    const resolved = await Promise.all(
       obj.map(async (arrayItem) => {
         if (typeof arrayItem === "function") {
           return await Promise.resolve(arrayItem(item, context));
@@ -55,7 +147,8 @@ export async function resolveObject<T, I = any, C = any>(
         }
         return arrayItem;
       }),
-    )) as unknown as T;
+    );
+    return resolved.filter((arrayItem) => arrayItem !== OMIT) as unknown as T;
   }
 
   const result: Record<string, any> = {};
@@ -76,11 +169,166 @@ export async function resolveObject<T, I = any, C = any>(
       // Copy primitive values directly
       result[key] = value;
     }
+    if (result[key] === OMIT) delete result[key];
   }
 
   return result as T;
 }
 
+// Thrown when a fill function reads a field of the same shape that hasn't been resolved yet
+class PendingFieldError extends Error {
+  constructor(readonly field: string) {
+    super(`Fill field "${field}" has not been resolved yet`);
+    this.name = "PendingFieldError";
+  }
+}
+
+/**
+ * Resolve the top-level fields of a fill shape in order, so that functions can read fields set
+ * earlier in the same shape. When a function reads a field that hasn't been resolved yet, it's
+ * stopped, the field is resolved, and the function runs again, so functions that read later
+ * fields must not have side effects. Functions reading their own field get the value set by
+ * earlier stages.
+ *
+ * Returns the resolved values, and the fields that resolved to `OMIT`.
+ */
+async function resolveFillShape<C>(
+  shape: Record<string, any>,
+  item: Record<string, any>,
+  context: C,
+): Promise<{ values: Record<string, any>; omitted: string[] }> {
+  const keys = Object.keys(shape);
+  const fields = new Set(keys);
+  const resolved = new Map<string, unknown>();
+  const resolving: string[] = [];
+
+  // The item as seen by the function of `key`, with the fields resolved so far. Records the first
+  // pending field read in `pending`, in case the function catches the error.
+  const view = (key: string, pending: { field?: string }) =>
+    new Proxy(item, {
+      get: (target, property, receiver) => {
+        if (typeof property !== "string" || property === key || !fields.has(property)) {
+          return Reflect.get(target, property, receiver);
+        }
+        if (!resolved.has(property)) {
+          pending.field ??= property;
+          throw new PendingFieldError(property);
+        }
+        const value = resolved.get(property);
+        return value === OMIT ? undefined : value;
+      },
+      has: (target, property) =>
+        typeof property === "string" && resolved.has(property) && property !== key
+          ? resolved.get(property) !== OMIT
+          : Reflect.has(target, property),
+    });
+
+  const resolve = async (key: string): Promise<void> => {
+    if (resolving.includes(key)) {
+      const cycle = [...resolving.slice(resolving.indexOf(key)), key];
+      throw new TypeError(`Circular dependency between fill fields: ${cycle.join(" -> ")}`);
+    }
+    resolving.push(key);
+    try {
+      for (;;) {
+        try {
+          const pending: { field?: string } = {};
+          const current = view(key, pending);
+          // Functions may return functions or shapes of their own, which are resolved in turn
+          let value = shape[key];
+          while (typeof value === "function") value = await value(current, context);
+          const nested = await resolveObject(value, current, context);
+          const result = await resolveObject(nested, current, context);
+          // Functions that caught the error of reading a pending field run again all the same
+          if (pending.field !== undefined) throw new PendingFieldError(pending.field);
+          resolved.set(key, result);
+          return;
+        } catch (error) {
+          if (!(error instanceof PendingFieldError)) throw error;
+          await resolve(error.field);
+        }
+      }
+    } finally {
+      resolving.pop();
+    }
+  };
+
+  for (const key of keys) {
+    if (!resolved.has(key)) await resolve(key);
+  }
+
+  const values: Record<string, any> = {};
+  const omitted: string[] = [];
+  for (const key of keys) {
+    const value = resolved.get(key);
+    if (value === OMIT) omitted.push(key);
+    else values[key] = value;
+  }
+  return { values, omitted };
+}
+
+/**
+ * Generate a batch whose unique keys don't collide with the job's other items. Colliding items
+ * are regenerated on their own, showing the model a sample of the values already used.
+ */
+async function generateUnique<T extends object>(
+  batch: Partial<WithHints<T>>[],
+  context: StageContext<T>,
+  unique: UniqueOptions,
+  generate: (
+    data: Partial<WithHints<T>>[],
+    context: StageContext<T>,
+    existingData: Record<string, any>[] | undefined,
+    seedParts: Array<string | number>,
+  ) => Promise<WithHints<Partial<T>>[]>,
+): Promise<Partial<WithHints<T>>[]> {
+  const index = context.uniqueIndex(unique.keys);
+  const maxRegenerations = unique.maxRegenerations ?? 3;
+  const results = [...batch];
+  const claimed: Partial<WithHints<T>>[] = [];
+  let pending = batch.map((_, i) => i);
+  let collisions: Record<string, unknown>[] = [];
+
+  try {
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt > maxRegenerations) {
+        throw new Error(
+          `Could not generate unique ${unique.keys.join(", ")} for ${pending.length} item(s) after ${maxRegenerations} regeneration(s), e.g. ${JSON.stringify(collisions[0])}`,
+        );
+      }
+
+      const existingData = [
+        ...index.sample(unique.sampleSize ?? 50, context.random),
+        ...collisions,
+      ];
+      const generated = await generate(
+        pending.map((i) => batch[i]),
+        context,
+        existingData.length ? existingData : undefined,
+        attempt ? ["unique", attempt] : [],
+      );
+
+      const colliding: number[] = [];
+      collisions = [];
+      pending.forEach((i, j) => {
+        results[i] = { ...batch[i], ...generated[j] };
+        if (index.claim(results[i], context.batchNumber)) {
+          claimed.push(results[i]);
+        } else {
+          colliding.push(i);
+          collisions.push(index.values(results[i]));
+        }
+      });
+      pending = colliding;
+    }
+  } catch (error) {
+    // Free the values claimed by this attempt so that retrying the stage doesn't collide with them
+    for (const item of claimed) index.release(item);
+    throw error;
+  }
+  return results;
+}
+
 // Type for the context object passed to stage functions
 export interface StageContext<T extends object> {
   batchNumber: number;
@@ -88,6 +336,48 @@ export interface StageContext<T extends object> {
   count: number;
   type: TypeDefinition<T>;
   previousData?: Partial<WithHints<T>>[];
+  /** The options the synthesis job was started with */
+  options: SynthesizeOptions;
+  /** Receives events from generate calls made by this stage, used for job accounting */
+  onGenerateEvent?: (event: GenerateEvent) => void;
+  /**
+   * Seed for this stage, derived from the job's seed, batch number and stage index. Fill functions
+   * receive a seed derived per item.
+   */
+  seed: number;
+  /** Pseudo-random number generator seeded with `seed`. Use it in place of Math.random. */
+  random: () => number;
+  /** Faker instance seeded with `seed`, available when the job's `faker` option is set */
+  faker?: any;
+  /** Aborted when the job is cancelled. Long-running custom stages should stop when it fires. */
+  signal: AbortSignal;
+  /**
+   * Index of the batch's first item across the job. Batch `n` starts at `n * batchSize` whichever
+   * batches complete first.
+   */
+  firstIndex: number;
+  /** Index of the item within the batch, set for fill functions */
+  itemIndex?: number;
+  /**
+   * Index of the item across the job (`firstIndex + itemIndex`), set for fill functions. Items
+   * dropped by earlier stages leave gaps, but no two items share an index.
+   */
+  globalIndex?: number;
+  /** Mutable state shared by all of the job's batches, e.g. counters */
+  store: JobStore;
+  /**
+   * The job's index of values claimed for the given unique key fields, shared by all of its
+   * batches. Created on first use with the items of the job's completed batches.
+   */
+  uniqueIndex: (keys: string[]) => UniqueIndex;
+  /**
+   * The job's dedupe index for the given fields and comparison, shared by all of its batches.
+   * Created on first use with the items of the job's completed batches.
+   */
+  dedupeIndex: (
+    fields: string[],
+    options?: { mode?: DedupeMode; threshold?: number },
+  ) => DedupeIndex<Partial<WithHints<T>>>;
 }
 
 // Options for defining a type
@@ -100,10 +390,60 @@ export interface TypeDefinitionOptions {
 
 // Options for generating data
 export interface GenerateOptions {
+  /** Name of the stage, shown in logs and errors */
+  name?: string;
   fields?: string[];
   instructions?: string;
-  model?: string;
-  unique?: boolean;
+  model?: ModelArgument;
+  temperature?: number;
+  /**
+   * Keep generated items unique. `true` runs batches one at a time and shows the model every
+   * earlier item. Unique keys keep batches running concurrently: colliding items are regenerated,
+   * showing the model a sample of the values already used.
+   */
+  unique?: boolean | UniqueOptions;
+  /** How failed attempts of this stage are retried */
+  retry?: RetryPolicy;
+}
+
+// How a stage retries failed attempts. Unset values fall back to the job's options.
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first (default: the job's `maxRetries` + 1) */
+  maxAttempts?: number;
+
+  /**
+   * Decides whether an error is worth another attempt (default: `isRetryableError`, except for rate
+   * limit errors when the `Genthetic` instance has a `rateLimit`, since its limiter retries them)
+   */
+  retryable?: (error: unknown) => boolean;
+
+  /** Delay before the first retry, doubling with each attempt (default: the job's `retryDelayMs`) */
+  baseDelayMs?: number;
+
+  /** Maximum delay between attempts in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+}
+
+// Options for adding a stage with .stage()
+export interface StageOptions {
+  /** Cache this stage's output for reuse as `previousData` by later batches */
+  cacheOutput?: boolean;
+  /** How failed attempts of this stage are retried */
+  retry?: RetryPolicy;
+}
+
+// Options for generating a single field
+export interface GenerateFieldOptions {
+  instructions?: string;
+  model?: ModelArgument;
+  temperature?: number;
+  /**
+   * Fields given to the model as context for the generated value. Defaults to all fields set by
+   * earlier stages.
+   */
+  dependsOn?: string[];
+  /** How failed attempts of this stage are retried */
+  retry?: RetryPolicy;
 }
 
 export type StageFn<T extends object = Record<string, any>> = (
@@ -113,8 +453,12 @@ export type StageFn<T extends object = Record<string, any>> = (
 
 export interface Stage<T extends object = Record<string, any>> {
   name?: string;
+  /** How the stage was added: with `.fill()`, `.generate()` or `.stage()` */
+  kind?: "fill" | "generate" | "dedupe" | "stage";
   run: StageFn<T>;
   cacheOutput?: boolean;
+  /** How failed attempts of this stage are retried */
+  retry?: RetryPolicy;
 }
 
 // Options for synthesis
@@ -138,14 +482,130 @@ export interface SynthesizeOptions {
   /** An output file to write results to. Incrementally updated as batches come in. */
   outFile?: string;
 
+  /**
+   * Format of `outFile`: "json", "jsonl", "ndjson", "jsonl.gz", "ndjson.gz", "csv" or a format
+   * added with `registerOutputWriter()`. Defaults to the format matching the file's extension,
+   * or "json".
+   */
+  format?: string;
+
+  /** Sinks (such as `sqliteSink()`) that receive each completed batch, in batch order */
+  sink?: Sink | Sink[];
+
   /** Maximum number of concurrent batch processing operations (default: 5) */
   concurrency?: number;
 
-  /** Maximum number of retries for failed operations (default: 3) */
+  /** Maximum number of retries for a failed stage, unless the stage has a retry policy (default: 3) */
   maxRetries?: number;
 
-  /** Base delay in milliseconds for retry backoff (default: 200) */
+  /** Base delay in milliseconds for stage retry backoff, unless the stage has a retry policy (default: 200) */
   retryDelayMs?: number;
+
+  /**
+   * What to do when a batch fails after its stage retries: `fail-fast` rejects `complete()`
+   * (default), `skip` leaves the batch out of the results, and `quarantine` also leaves it out but
+   * keeps it for `retryFailed()`. Skipped and quarantined batches are listed in `failures`.
+   */
+  failureMode?: FailureMode;
+
+  /**
+   * Exact proportions of values for fields, e.g. `{ status: { refunded: 3, completed: 7 } }`.
+   * Values are allocated to items in a seeded random order before the first stage runs, so that
+   * each value is used by its exact share of the job's items.
+   */
+  stratify?: Record<string, Weights>;
+
+  /** Cache generate responses on disk, overriding the Genthetic instance's cache. `false` disables caching. */
+  cache?: ResponseCacheOptions | false;
+
+  /**
+   * Validate completed items against the type's Zod schema after the last stage, asking the model
+   * to repair invalid items. Items that can't be repaired are reported in `invalidItems` instead
+   * of being returned.
+   */
+  validate?: boolean | ValidationOptions;
+
+  /**
+   * Completed results of other types, used to resolve `ref()` and `belongsTo()` helpers.
+   * Provided automatically by `synthesizeAll()`.
+   */
+  references?: Map<TypeDefinition<any>, any[]>;
+
+  /**
+   * Seed for reproducible runs. Stages receive a deterministic `context.random` derived from the
+   * seed, batch number and stage index (and item index in fill functions), so non-LLM stages
+   * produce identical output regardless of concurrency. Derived seeds are also passed to the model.
+   */
+  seed?: number;
+
+  /**
+   * Create a seeded faker instance, exposed to stages as `context.faker`.
+   * @example faker: (seed) => new Faker({ locale: en, seed })
+   */
+  faker?: (seed: number) => unknown;
+
+  /** Cancel the job when this signal is aborted (equivalent to calling `job.cancel()`) */
+  signal?: AbortSignal;
+
+  /**
+   * A checkpoint file that saves the job's progress as batches complete, so that an interrupted
+   * job can be resumed with `resume`.
+   */
+  checkpoint?: string;
+
+  /**
+   * Resume from the `checkpoint` file if it exists, skipping batches that already completed.
+   * Completed batches are included in the results but not passed to `onBatch` again.
+   */
+  resume?: boolean;
+
+  /** Prices of models by name, overriding the Genthetic instance's pricing table */
+  pricing?: Record<string, ModelPricing>;
+
+  /**
+   * Stop starting new batches once the job's tokens or estimated cost would exceed these limits.
+   * The job completes with the batches finished so far.
+   */
+  budget?: SynthesisBudget;
+
+  /**
+   * Run the job without calling the model. Each model request is reported as a `request` event
+   * and answered with mock data, so the other stages still run. Nothing is written to `outFile`,
+   * sinks or the checkpoint.
+   */
+  dryRun?: boolean;
+}
+
+// Options for validating and repairing generated items
+export interface ValidationOptions {
+  /** Maximum number of repair requests per batch (default: 2). Set to 0 to only validate. */
+  repairAttempts?: number;
+
+  /** Model used for repair requests */
+  model?: ModelArgument;
+
+  /** Additional instructions for repair requests */
+  instructions?: string;
+}
+
+// An item that failed validation and could not be repaired
+export interface InvalidItem<T> {
+  batchNumber: number;
+  item: Partial<WithHints<T>>;
+  errors: string[];
+}
+
+export type FailureMode = "fail-fast" | "skip" | "quarantine";
+
+// A batch left out of a job's results because it failed
+export interface FailedBatch<T> {
+  batchNumber: number;
+  /** The error the batch failed with, usually a `StageError` */
+  error: unknown;
+  /** Index of the stage that failed, or the number of stages if validation failed */
+  stageIndex: number;
+  /** The batch's items as they were before the failed stage */
+  partialData: Partial<WithHints<T>>[];
 }
 
 export type FillShape<T extends object> = Partial<
@@ -167,10 +627,15 @@ export class TypeDefinition<T extends object = Record<string, any>> {
   defaultBatchSize?: number;
   suppliedJsonSchema?: any;
   stages: Stage<T>[] = [];
+  /** Types whose results must be available before this type is synthesized */
+  dependencies = new Set<TypeDefinition<any>>();
+  /** Target distributions declared by distribution helpers in fill shapes, by field path */
+  distributions = new Map<string, Distribution>();
 
   constructor(
     private readonly options: TypeDefinitionOptions,
-    private readonly genthetic: Genthetic,
+    /** The Genthetic instance that defined this type */
+    readonly genthetic: Genthetic,
   ) {
     this.name = options.name;
     this.zodSchema = options.schema;
@@ -186,34 +651,52 @@ export class TypeDefinition<T extends object = Record<string, any>> {
    * Fill the objects with values or add hints
    * @param name Optional name for this fill stage
    * @param data Data to fill
-   * @param hints Hints to include (will be added to __hints property)
+   * @param options Retry policy for the stage
    */
-  fill(name: string, data: FillShape<T>): this;
-  fill(shape: FillShape<T>): this;
+  fill(name: string, data: FillShape<T>, options?: { retry?: RetryPolicy }): this;
+  fill(shape: FillShape<T>, options?: { retry?: RetryPolicy }): this;
   fill(
     nameOrShape: string | Partial<Record<keyof T, any>>,
-    shapeArg?: FillShape<T> | Record<string, any>,
+    shapeArg?: FillShape<T> | { retry?: RetryPolicy },
+    optionsArg?: { retry?: RetryPolicy },
   ): this {
     // Handle the different parameter combinations
     let shape: Partial<Record<keyof T, any>>;
     let name: string | undefined;
+    let options: { retry?: RetryPolicy } | undefined;
 
     if (typeof nameOrShape === "string") {
-      // Case: fill(name, data, hints?)
+      // Case: fill(name, data, options?)
       name = nameOrShape;
       shape = shapeArg as FillShape<T>;
+      options = optionsArg;
     } else {
-      // Case: fill(shape, hints?)
+      // Case: fill(shape, options?)
       name = undefined;
       shape = nameOrShape;
+      options = shapeArg as { retry?: RetryPolicy } | undefined;
     }
 
     const fillFn: StageFn<T> = async (batch, context) => {
       return await Promise.all(
-        batch.map(async (item) => {
-          // Resolve the shape object to get all function values resolved
-          const resolvedShape = await resolveObject(shape, item, context);
-          return resolveObject(resolvedShape, item, context);
+        batch.map(async (item, index) => {
+          // Give each item its own seeded context so results don't depend on resolution order
+          const itemContext = withSeed(context, deriveSeed(context.seed, index));
+          itemContext.itemIndex = index;
+          itemContext.globalIndex = context.firstIndex + index;
+
+          // Resolve the shape's fields in order, so that they can depend on each other
+          const { values, omitted } = await resolveFillShape(shape, item, itemContext);
+          const filled = values as WithHints<Partial<T>>;
+
+          // Add to the values and hints set by earlier stages
+          const hints = (item as WithHints<T>).__hints;
+          const result: Record<string, any> =
+            hints && filled.__hints
+              ? { ...item, ...filled, __hints: { ...hints, ...filled.__hints } }
+              : { ...item, ...filled };
+          for (const key of omitted) delete result[key];
+          return result as Partial<WithHints<T>>;
         }),
       );
     };
@@ -221,9 +704,24 @@ export class TypeDefinition<T extends object = Record<string, any>> {
     // Add the stage directly
     this.stages.push({
       name,
+      kind: "fill",
       run: fillFn,
+      retry: options?.retry,
     });
 
+    // Track types referenced with ref() or belongsTo() for dependency ordering
+    for (const type of collectRefs(shape)) this.dependencies.add(type);
+    collectDistributions(shape, this.distributions);
+
+    return this;
+  }
+
+  /**
+   * Declare types whose results must be available before this type is synthesized, e.g. when a
+   * custom stage reads them from `context.options.references`
+   */
+  dependsOn(...types: TypeDefinition<any>[]): this {
+    for (const type of types) this.dependencies.add(type);
     return this;
   }
 
@@ -231,39 +729,186 @@ export class TypeDefinition<T extends object = Record<string, any>> {
    * Configure the AI generation phase
    */
   generate(options?: GenerateOptions): this {
-    this.stage(
-      async (batch, context) => {
-        const generatedData = (await generateSyntheticData({
-          data: batch,
-          count: batch.length,
+    const unique = typeof options?.unique === "object" ? options.unique : undefined;
+    const generate = (
+      data: Partial<WithHints<T>>[],
+      context: StageContext<T>,
+      existingData: Record<string, any>[] | undefined,
+      seedParts: Array<string | number>,
+    ) =>
+      this.genthetic.generateSyntheticData(
+        {
+          data,
+          count: data.length,
           fields: options?.fields,
           instructions: options?.instructions,
           model: options?.model,
+          seed: modelSeed(context, ...seedParts),
+          temperature: options?.temperature,
           schema: this.jsonSchema,
-          existingData: options?.unique ? context.previousData : undefined,
-        })) as WithHints<Partial<T>>[];
+          existingData,
+        },
+        context,
+      ) as Promise<WithHints<Partial<T>>[]>;
 
+    this.stages.push({
+      name: options?.name,
+      kind: "generate",
+      run: async (batch, context) => {
+        if (unique) return generateUnique(batch, context, unique, generate);
+
+        const existingData = options?.unique ? context.previousData : undefined;
+        const generatedData = await generate(batch, context, existingData, []);
         return batch.map((item, i) => ({ ...item, ...generatedData[i] }));
       },
-      { cacheOutput: !!options?.unique },
-    );
+      cacheOutput: options?.unique === true,
+      retry: options?.retry,
+    });
+    return this;
+  }
+
+  /**
+   * Add a stage that finds items duplicating an earlier item of the job in the given fields, and
+   * drops, regenerates or flags them. Duplicates are reported in the job's `duplicates`.
+   */
+  dedupe(options: DedupeOptions & { retry?: RetryPolicy }): this {
+    const action = options.action ?? "drop";
+    const maxRegenerations = options.maxRegenerations ?? 3;
+    const pick = (item: Record<string, any>) =>
+      Object.fromEntries(options.fields.map((field) => [field, item[field]]));
+
+    this.stages.push({
+      kind: "dedupe",
+      run: async (batch, context) => {
+        const index = context.dedupeIndex(options.fields, options);
+        const results = [...batch];
+        const added: Partial<WithHints<T>>[] = [];
+        const found: DuplicateItem<Partial<WithHints<T>>>[] = [];
+
+        // Keep the given items that aren't duplicates, returning the indexes of the duplicates
+        const check = (indexes: number[]) =>
+          indexes.filter((i) => {
+            const match = index.find(results[i]);
+            if (match) {
+              found.push({
+                batchNumber: context.batchNumber,
+                item: results[i],
+                duplicateOf: match.item,
+                similarity: match.similarity,
+                action,
+              });
+              return true;
+            }
+            index.add(results[i], context.batchNumber);
+            added.push(results[i]);
+            return false;
+          });
+
+        let duplicates: number[];
+        try {
+          duplicates = check(batch.map((_, i) => i));
+          for (let attempt = 1; action === "regenerate" && attempt <= maxRegenerations; attempt++) {
+            if (!duplicates.length) break;
+            const existingData = [
+              ...index.sample(50, context.random),
+              ...duplicates.map((i) => pick(results[i])),
+            ];
+            const generated = await this.genthetic.generateSyntheticData(
+              {
+                data: duplicates.map((i) => {
+                  const item: Record<string, any> = { ...results[i] };
+                  for (const field of options.fields) delete item[field];
+                  return item;
+                }),
+                count: duplicates.length,
+                fields: options.fields,
+                instructions: options.instructions,
+                existingData,
+                seed: modelSeed(context, "dedupe", attempt),
+                schema: this.jsonSchema,
+              },
+              context,
+            );
+            duplicates.forEach((i, j) => (results[i] = { ...results[i], ...generated[j] }));
+            duplicates = check(duplicates);
+          }
+        } catch (error) {
+          // Forget the items of this attempt so that retrying the stage doesn't match them
+          for (const item of added) index.remove(item);
+          throw error;
+        }
+
+        // Duplicates still found after regenerating are dropped
+        if (action === "regenerate") {
+          for (const duplicate of found.slice(found.length - duplicates.length)) {
+            duplicate.action = "drop";
+          }
+        }
+        index.duplicates.push(...found);
+
+        if (action === "flag") return results;
+        const dropped = new Set(duplicates);
+        return results.filter((_, i) => !dropped.has(i));
+      },
+      retry: options.retry,
+    });
+    return this;
+  }
+
+  /**
+   * Generate a single field of each item with its own model call, e.g. a long-form description.
+   * Only the item's `dependsOn` fields (and hints) are sent as context.
+   */
+  generateField(field: keyof T & string, options?: GenerateFieldOptions): this {
+    this.stages.push({
+      name: field,
+      kind: "generate",
+      run: async (batch, context) =>
+        Promise.all(
+          batch.map(async (item, index) => {
+            const { __hints, ...fields } = item as WithHints<Partial<T>>;
+            const data: Record<string, any> = {};
+            for (const [key, value] of Object.entries(fields)) {
+              if (key === field) continue;
+              if (options?.dependsOn && !options.dependsOn.includes(key)) continue;
+              data[key] = value;
+            }
+            if (__hints) data.__hints = __hints;
+
+            const generated = await this.genthetic.generateSyntheticField(
+              {
+                field,
+                data,
+                instructions: options?.instructions,
+                model: options?.model,
+                seed: modelSeed(context, index),
+                temperature: options?.temperature,
+                schema: this.jsonSchema,
+              },
+              context,
+            );
+            return { ...item, ...generated };
+          }),
+        ),
+      retry: options?.retry,
+    });
     return this;
   }
 
   /**
    * Add a post-processing stage to the pipeline
    */
-  stage(name: string | undefined, fn: StageFn<T>, options?: { cacheOutput?: boolean }): this;
-  stage(fn: StageFn<T>, options?: { cacheOutput?: boolean }): this;
+  stage(name: string | undefined, fn: StageFn<T>, options?: StageOptions): this;
+  stage(fn: StageFn<T>, options?: StageOptions): this;
   stage(
     nameOrFn?: string | StageFn<T>,
-    fnOrOptions?: StageFn<T> | { cacheOutput?: boolean },
-    optionsArg?: { cacheOutput?: boolean },
+    fnOrOptions?: StageFn<T> | StageOptions,
+    optionsArg?: StageOptions,
   ): this {
     // Handle the different parameter combinations
     let name: string | undefined;
     let fn: StageFn<T>;
-    let options: { cacheOutput?: boolean } | undefined;
+    let options: StageOptions | undefined;
 
     if (typeof nameOrFn === "string") {
       // Case: stage(name, fn, options?)
@@ -274,13 +919,15 @@ export class TypeDefinition<T extends object = Record<string, any>> {
       // Case: stage(fn, options?)
       name = undefined;
       fn = nameOrFn as StageFn<T>;
-      options = fnOrOptions as { cacheOutput?: boolean } | undefined;
+      options = fnOrOptions as StageOptions | undefined;
     }
 
     this.stages.push({
       name,
+      kind: "stage",
       run: fn,
       cacheOutput: options?.cacheOutput,
+      retry: options?.retry,
     });
     return this;
   }
@@ -293,6 +940,47 @@ export class TypeDefinition<T extends object = Record<string, any>> {
   synthesize(options: SynthesizeOptions = {}): SynthesisJob<T> {
     return this.genthetic.synthesize(this, options);
   }
+
+  /**
+   * Preview the model requests of a sample batch without calling the model. Other stages run
+   * normally, with mock data in place of model responses.
+   * @param options Options for the sample batch
+   * @returns The requests each generate stage would send, and the sample batch's items
+   */
+  async preview(options: PreviewOptions = {}): Promise<TypePreview<T>> {
+    const job = this.synthesize({ ...options, batches: 1, dryRun: true });
+    const preview: TypePreview<T> = { requests: [], items: [] };
+    for await (const event of job) {
+      if (event.type === "request") {
+        const { stageIndex, request } = event;
+        const stageName = stageIndex === undefined ? undefined : this.stages[stageIndex].name;
+        preview.requests.push({ stageIndex, stageName, ...request });
+      } else if (event.type === "done") {
+        preview.items = event.results;
+      }
+    }
+    return preview;
+  }
+}
+
+// Options for previewing a type's model requests
+export type PreviewOptions = Pick<
+  SynthesizeOptions,
+  "batchSize" | "seed" | "faker" | "references" | "validate"
+>;
+
+// A model request made while previewing a type
+export interface PreviewRequest extends ModelRequest {
+  /** The stage that made the request, unset for validation repair requests */
+  stageIndex?: number;
+  stageName?: string;
+}
+
+// The result of previewing a type
+export interface TypePreview<T> {
+  requests: PreviewRequest[];
+  /** The sample batch, with mock data in place of model responses */
+  items: T[];
 }
 
 export interface SynthesisJobProgress {
@@ -305,99 +993,703 @@ export interface SynthesisJobProgress {
   // Time tracking
   elapsedTime: number; // in milliseconds
   currentBatchTime?: number; // in milliseconds
+  // Number of generate calls where the model returned the wrong number of objects
+  countMismatches: number;
+  // Tokens used by the job's model calls so far
+  usage: TokenUsage;
 }
 
 // Job interface for tracking synthesis progress
-export interface SynthesisJob<T> {
+/**
+ * Events emitted while a synthesis job runs. Every event carries a snapshot of the job's progress.
+ */
+export type SynthesisEvent<T> = (
+  | { type: "batch-started"; batchNumber: number }
+  | { type: "stage-completed"; batchNumber: number; stageIndex: number; stageName?: string }
+  // `resumed` is set for batches restored from a checkpoint
+  | { type: "batch-completed"; batchNumber: number; items: T[]; resumed: boolean }
+  // A stage attempt failed. The stage is retried if its retry policy allows. Failed validation
+  // attempts have the number of stages as `stageIndex`.
+  | { type: "error"; batchNumber: number; stageIndex: number; error: unknown }
+  // `attempt` is the number of the failed attempt being retried, starting at 1
+  | { type: "retry"; batchNumber: number; stageIndex: number; attempt: number }
+  // A batch failed and was skipped or quarantined, according to the job's `failureMode`
+  | { type: "batch-failed"; batchNumber: number; error: unknown }
+  // A model request made in a dry run, by a stage or (without a stage) by validation
+  | { type: "request"; batchNumber: number; stageIndex?: number; request: ModelRequest }
+  | { type: "done"; results: T[] }
+) & { progress: SynthesisJobProgress };
+
+export interface SynthesisJob<T> extends AsyncIterable<SynthesisEvent<T>> {
   complete: () => Promise<T[]>;
+  /**
+   * Iterate over completed batches in batch order as they become available. Batches restored
+   * from a checkpoint are skipped. Throws if the job fails or is cancelled.
+   */
+  batches: () => AsyncIterableIterator<T[]>;
+  /**
+   * Cancel the job. No further batches are started, in-flight generate calls are aborted, and
+   * `complete()` rejects with a `SynthesisCancelledError` holding the results collected so far.
+   */
+  cancel: (reason?: unknown) => void;
+  /** Items that failed validation and were excluded from the results */
+  invalidItems: InvalidItem<T>[];
+  /**
+   * Compare the distributions of the job's completed items with the targets declared by
+   * distribution helpers in the type's fill shapes and by the `stratify` option
+   */
+  distributionReport: () => DistributionReport;
+  /** Duplicates found by the type's dedupe stages */
+  duplicates: DuplicateItem<Partial<WithHints<T>>>[];
+  /** Batches that failed in the `skip` or `quarantine` failure modes, in batch order */
+  failures: FailedBatch<T>[];
+  /**
+   * Retry the batches quarantined by a completed job, continuing each batch from the stage that
+   * failed. Resolves with all of the job's results in batch order. Batches that fail again, or
+   * aren't retried because the job's budget is reached, stay in `failures`. Recovered batches are
+   * passed to `onBatch` and saved to the checkpoint, but not written to `outFile` or sinks, which
+   * are closed when the job completes.
+   */
+  retryFailed: () => Promise<T[]>;
+  /** Mutable state shared by the job's fill and stage functions as `context.store` */
+  store: JobStore;
+  /** Token usage of the job's model calls, updated as the job runs */
+  usage: UsageReport;
 }
 
 /**
- * Main Genthetic class for synthetic data generation
+ * Error thrown by `complete()` when a job is cancelled. Carries the results of the batches that
+ * completed before cancellation, in batch order.
  */
-export class Genthetic {
-  constructor() {}
+export class SynthesisCancelledError<T = unknown> extends Error {
+  constructor(
+    readonly results: T[],
+    readonly reason?: unknown,
+  ) {
+    super(
+      `Synthesis cancelled${reason instanceof Error ? `: ${reason.message}` : ""} (${results.length} items completed)`,
+    );
+    this.name = "SynthesisCancelledError";
+  }
+}
+
+/**
+ * Error thrown when a stage fails and its retry policy doesn't allow another attempt. `errors`
+ * holds the error of every attempt, and `cause` the last one.
+ */
+export class StageError extends AggregateError {
+  readonly batchNumber: number;
+  readonly stageIndex: number;
+  readonly stageName?: string;
+
+  constructor({
+    batchNumber,
+    stageIndex,
+    stageName,
+    errors,
+  }: {
+    batchNumber: number;
+    stageIndex: number;
+    stageName?: string;
+    errors: unknown[];
+  }) {
+    const last = errors[errors.length - 1];
+    super(
+      errors,
+      `Batch ${batchNumber + 1}, ${stageName ? `stage "${stageName}"` : `stage ${stageIndex + 1}`} failed after ${errors.length} attempt(s): ${last instanceof Error ? last.message : String(last)}`,
+      { cause: last },
+    );
+    this.name = "StageError";
+    this.batchNumber = batchNumber;
+    this.stageIndex = stageIndex;
+    this.stageName = stageName;
+  }
+
+  /** Number of attempts made */
+  get attempts(): number {
+    return this.errors.length;
+  }
+}
 
+// Options for constructing a Genthetic instance
+export interface GentheticOptions {
   /**
-   * Define a new synthetic data type
+   * The Genkit instance used by generate stages, or a function that creates one. Functions are
+   * called lazily the first time a generate stage runs. Defaults to a Google AI (Gemini) instance.
    */
-  defineType<T extends object>(options: TypeDefinitionOptions): TypeDefinition<T> {
-    return new TypeDefinition<T>(options, this);
-  }
+  ai?: Genkit | (() => Genkit | Promise<Genkit>);
+
+  /** The model used by generate stages that don't specify one. */
+  defaultModel?: ModelArgument;
 
   /**
-   * Synthesize data based on a type definition
+   * Replace model calls with a deterministic mock that produces schema-conforming fake data.
+   * Useful for offline, reproducible tests of whole pipelines. No provider is initialized.
    */
-  synthesize<T extends object>(
-    typeDefinition: TypeDefinition<T>,
-    options: SynthesizeOptions = {},
-  ): SynthesisJob<T> {
-    // Determine batch size and logging level
-    const batchSize = options.batchSize || typeDefinition.defaultBatchSize || 10;
-    const loggingLevel = options.logging || "none";
+  mock?: boolean | MockModelOptions;
 
-    // Calculate total number of batches and items
-    let totalBatches: number;
-    let totalCount: number;
+  /** Cache generate responses on disk so unchanged generate stages are served without calling the model. */
+  cache?: ResponseCacheOptions;
 
-    if (options.batches) {
-      totalBatches = options.batches;
-      totalCount = totalBatches * batchSize;
-    } else if (options.count) {
-      totalCount = options.count;
-      totalBatches = Math.ceil(totalCount / batchSize);
-    } else {
-      // Default to 1 batch if neither is specified
-      totalBatches = 1;
-      totalCount = batchSize;
-    }
+  /**
+   * Prices of models by name, used to estimate the cost of jobs. Names may omit the provider
+   * prefix, e.g. `{ "gemini-2.5-flash": { input: 0.3, output: 2.5 } }`.
+   */
+  pricing?: Record<string, ModelPricing>;
 
-    // Implementation of AsyncIterable for progress tracking
-    const progressController = {
-      listeners: [] as Array<(progress: SynthesisJobProgress) => void>,
-      startTime: Date.now(),
-      batchStartTime: 0,
-      currentProgress: {
-        batchesComplete: 0,
-        batchCount: totalBatches,
-        currentBatch: {
-          stagesComplete: 0,
-          stageCount: typeDefinition.stages.length,
-        },
-        elapsedTime: 0,
-        currentBatchTime: 0,
-      } as SynthesisJobProgress,
+  /** Limit the rate of model calls made by all of this instance's jobs together */
+  rateLimit?: RateLimitOptions;
+}
 
-      emit() {
-        // Update timing information
-        const now = Date.now();
-        this.currentProgress.elapsedTime = now - this.startTime;
-        this.currentProgress.currentBatchTime = now - this.batchStartTime;
+// Options for limiting the rate of model calls
+export interface RateLimitOptions {
+  /** Maximum number of model calls per minute */
+  requestsPerMinute?: number;
 
-        const progress = { ...this.currentProgress };
-        for (const listener of this.listeners) {
-          listener(progress);
-        }
+  /** Maximum number of input and output tokens per minute */
+  tokensPerMinute?: number;
 
-        // Also call onProgress callback if provided
+  /** Maximum number of concurrent model calls (default: unlimited) */
+  concurrency?: number;
+
+  /** Maximum number of retries for calls rejected with a rate limit error (default: 3) */
+  maxRetries?: number;
+
+  /** Base delay in milliseconds for retrying rate limit errors that don't say when to retry (default: 1000) */
+  retryDelayMs?: number;
+}
+
+/**
+ * Main Genthetic class for synthetic data generation
+ */
+export class Genthetic {
+  private aiPromise?: Promise<Genkit>;
+
+  /** Limits the rate of model calls across all jobs, when the `rateLimit` option is set */
+  readonly limiter?: Throttler;
+
+  constructor(private readonly options: GentheticOptions = {}) {
+    const { rateLimit } = options;
+    if (rateLimit) {
+      this.limiter = new Throttler({
+        concurrency: rateLimit.concurrency ?? Infinity,
+        requestsPerMinute: rateLimit.requestsPerMinute,
+        tokensPerMinute: rateLimit.tokensPerMinute,
+        maxRetries: rateLimit.maxRetries,
+        baseRetryDelayMs: rateLimit.retryDelayMs ?? 1000,
+        // Only the limiter retries rate limit errors, other errors are retried by the stage's retry policy
+        retryable: isRateLimitError,
+      });
+    }
+  }
+
+  /**
+   * Get the Genkit instance for generate stages, initializing it on first use.
+   */
+  getAI(): Promise<Genkit> {
+    if (!this.aiPromise) {
+      const { ai } = this.options;
+      this.aiPromise = Promise.resolve(
+        typeof ai === "function" ? ai() : (ai ?? createDefaultGenkit()),
+      );
+      // allow initialization to be retried if it fails
+      this.aiPromise.catch(() => (this.aiPromise = undefined));
+    }
+    return this.aiPromise;
+  }
+
+  /**
+   * Resolve the model for a generate call. Bare model names are treated as Google AI models when
+   * using the default Genkit instance (e.g. "gemini-2.0-flash" becomes "googleai/gemini-2.0-flash").
+   */
+  private resolveModel(model?: ModelArgument): ModelArgument | undefined {
+    const resolved = model ?? this.options.defaultModel;
+    if (!this.options.ai && typeof resolved === "string" && !resolved.includes("/")) {
+      return `googleai/${resolved}`;
+    }
+    return resolved;
+  }
+
+  /**
+   * Generate a batch of synthetic data using the configured Genkit instance and model.
+   * @param input The generation input
+   * @param context The context of the calling stage, used for job-level options like caching
+   */
+  async generateSyntheticData(
+    input: GenerateSyntheticDataInput,
+    context?: StageContext<any>,
+  ): Promise<Record<string, any>[]> {
+    const { mock } = this.options;
+    if (context?.options.dryRun) {
+      this.previewRequest(
+        { model: input.model, config: modelConfig(input), ...buildSyntheticDataRequest(input) },
+        context,
+      );
+    }
+    if (mock || context?.options.dryRun) {
+      return mockSyntheticData(input, typeof mock === "object" ? mock : {});
+    }
+
+    return generateSyntheticData(
+      () => this.getAI(),
+      { ...input, model: this.resolveModel(input.model) },
+      this.generateCallOptions(context),
+    );
+  }
+
+  /**
+   * Generate a single field of one item using the configured Genkit instance and model.
+   * @param input The field to generate and the item it belongs to
+   * @param context The context of the calling stage, used for job-level options like caching
+   */
+  async generateSyntheticField(
+    input: GenerateSyntheticFieldInput,
+    context?: StageContext<any>,
+  ): Promise<Record<string, any>> {
+    const { mock } = this.options;
+    if (context?.options.dryRun) {
+      this.previewRequest(
+        { model: input.model, config: modelConfig(input), ...buildSyntheticFieldRequest(input) },
+        context,
+      );
+    }
+    if (mock || context?.options.dryRun) {
+      const [generated] = mockSyntheticData(
+        {
+          schema: buildSyntheticFieldRequest(input).jsonSchema,
+          data: [input.data],
+          fields: [input.field],
+        },
+        typeof mock === "object" ? mock : {},
+      );
+      return generated;
+    }
+
+    return generateSyntheticField(
+      () => this.getAI(),
+      { ...input, model: this.resolveModel(input.model) },
+      this.generateCallOptions(context),
+    );
+  }
+
+  /**
+   * Ask the model to correct items that failed schema validation.
+   * @param input The items to repair along with their validation errors
+   * @param context The context of the calling stage, used for job-level options like caching
+   */
+  async repairSyntheticData(
+    input: RepairSyntheticDataInput,
+    context?: StageContext<any>,
+  ): Promise<Record<string, any>[]> {
+    const { mock } = this.options;
+    if (context?.options.dryRun) {
+      this.previewRequest({ model: input.model, ...buildRepairRequest(input) }, context);
+    }
+    if (mock || context?.options.dryRun) {
+      return mockSyntheticData(
+        {
+          schema: input.schema,
+          data: input.items,
+          fields: Object.keys(input.schema.properties ?? {}),
+        },
+        typeof mock === "object" ? mock : {},
+      );
+    }
+
+    return repairSyntheticData(
+      () => this.getAI(),
+      { ...input, model: this.resolveModel(input.model) },
+      this.generateCallOptions(context),
+    );
+  }
+
+  /**
+   * Report the request a model call would send, in place of calling the model in dry runs.
+   */
+  private previewRequest(
+    request: Omit<ModelRequest, "model"> & { model?: ModelArgument },
+    context: StageContext<any>,
+  ) {
+    context.onGenerateEvent?.({
+      type: "request",
+      request: { ...request, model: modelName(this.resolveModel(request.model)) },
+    });
+  }
+
+  private generateCallOptions(context?: StageContext<any>): GenerateCallOptions {
+    const cacheOptions = context?.options.cache ?? this.options.cache;
+    return {
+      cache: cacheOptions ? new ResponseCache(cacheOptions) : undefined,
+      onEvent: context?.onGenerateEvent,
+      signal: context?.signal,
+      limiter: this.limiter,
+    };
+  }
+
+  /**
+   * Define a new synthetic data type
+   */
+  defineType<T extends object>(options: TypeDefinitionOptions): TypeDefinition<T> {
+    return new TypeDefinition<T>(options, this);
+  }
+
+  /**
+   * Define a type from a parsed YAML or JSON document
+   * @throws DefinitionError listing every problem in the document
+   */
+  defineTypeFromDocument<T extends object>(document: TypeDocument | unknown): TypeDefinition<T> {
+    return defineTypeFromDocument<T>(this, document);
+  }
+
+  /**
+   * Load a type definition from a YAML (`.yaml`, `.yml`) or JSON file
+   * @throws DefinitionError if the file can't be parsed or the definition is invalid
+   */
+  loadType<T extends object>(file: string): Promise<TypeDefinition<T>> {
+    return loadTypeDefinition<T>(this, file);
+  }
+
+  /**
+   * Synthesize data based on a type definition
+   */
+  synthesize<T extends object>(
+    typeDefinition: TypeDefinition<T>,
+    options: SynthesizeOptions = {},
+  ): SynthesisJob<T> {
+    // Determine batch size and logging level
+    const batchSize = options.batchSize || typeDefinition.defaultBatchSize || 10;
+    const loggingLevel = options.logging || "none";
+    // Replaced with the checkpoint's seed when resuming
+    let jobSeed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+
+    if (options.resume && !options.checkpoint) {
+      throw new Error('The "resume" option requires a "checkpoint" file');
+    }
+
+    const pricing = options.pricing ?? this.options.pricing;
+    if (options.budget?.maxCost !== undefined && !pricing) {
+      throw new Error('The "budget.maxCost" option requires a "pricing" table');
+    }
+
+    for (const [field, weights] of Object.entries(options.stratify ?? {})) {
+      try {
+        normalizeWeights(weights);
+      } catch (error: any) {
+        throw new Error(`Invalid "stratify.${field}" option: ${error.message}`);
+      }
+    }
+
+    // Aborted when the job is cancelled, either with job.cancel() or the supplied signal
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+    if (options.signal?.aborted) {
+      abortController.abort(options.signal.reason);
+    } else {
+      options.signal?.addEventListener(
+        "abort",
+        () => abortController.abort(options.signal?.reason),
+        {
+          once: true,
+        },
+      );
+    }
+
+    // Calculate total number of batches and items
+    let totalBatches: number;
+    let totalCount: number;
+
+    if (options.batches) {
+      totalBatches = options.batches;
+      totalCount = totalBatches * batchSize;
+    } else if (options.count) {
+      totalCount = options.count;
+      totalBatches = Math.ceil(totalCount / batchSize);
+    } else {
+      // Default to 1 batch if neither is specified
+      totalBatches = 1;
+      totalCount = batchSize;
+    }
+
+    // Token usage of the job's model calls, estimating costs when there's a pricing table
+    const usage: UsageReport = {
+      total: emptyUsage(!!pricing),
+      byStage: typeDefinition.stages.map(() => emptyUsage(!!pricing)),
+      validation: emptyUsage(!!pricing),
+      byBatch: Array.from({ length: totalBatches }, () => emptyUsage(!!pricing)),
+      byModel: {},
+      budgetExceeded: false,
+    };
+    const unpricedModels = new Set<string>();
+
+    /**
+     * Record the usage of a model call made by a batch. Calls made while validating the batch
+     * have no stage.
+     */
+    const recordUsage = (
+      event: Extract<GenerateEvent, { type: "usage" }>,
+      batchNumber: number,
+      stageIndex?: number,
+    ) => {
+      const price = findPricing(pricing, event.model);
+      if (pricing && !price && !unpricedModels.has(event.model)) {
+        unpricedModels.add(event.model);
+        if (loggingLevel !== "none") {
+          console.log(
+            `\x1b[33m⚠️ [Genthetic] WARNING: No pricing for model ${event.model}, its cost is not included in estimates\x1b[0m`,
+          );
+        }
+      }
+
+      const cost = price
+        ? (event.inputTokens * price.input + event.outputTokens * price.output) / 1_000_000
+        : 0;
+      usage.byModel[event.model] ??= emptyUsage(!!pricing);
+      addUsage(
+        { ...event, cost },
+        usage.total,
+        stageIndex === undefined ? usage.validation : usage.byStage[stageIndex],
+        usage.byBatch[batchNumber],
+        usage.byModel[event.model],
+      );
+    };
+
+    // Usage of the batches completed by this run, used to estimate the usage of the next batch
+    const completedUsage = { batches: 0, tokens: 0, cost: 0 };
+
+    // Number of batches being processed
+    let runningBatches = 0;
+
+    /**
+     * Check whether starting another batch could take the job over its budget, estimating the
+     * usage of the batches still running and the new one from the batches completed so far. Once
+     * exceeded, no more batches start.
+     */
+    const overBudget = (): boolean => {
+      const { budget } = options;
+      if (!budget || usage.budgetExceeded) return usage.budgetExceeded;
+
+      const average = (value: number) =>
+        completedUsage.batches ? value / completedUsage.batches : 0;
+      const tokens = usage.total.inputTokens + usage.total.outputTokens;
+      const cost = usage.total.cost ?? 0;
+      const exceeds = (spent: number, estimate: number, max?: number) =>
+        max !== undefined && (spent >= max || spent + estimate * (runningBatches + 1) > max);
+
+      if (
+        exceeds(tokens, average(completedUsage.tokens), budget.maxTokens) ||
+        exceeds(cost, average(completedUsage.cost), budget.maxCost)
+      ) {
+        usage.budgetExceeded = true;
+        if (loggingLevel !== "none") {
+          console.log(
+            `\x1b[33m⚠️ [Genthetic] WARNING: Budget reached after ${tokens} tokens${
+              usage.total.cost !== undefined ? ` (estimated cost ${cost.toFixed(4)})` : ""
+            }, no more batches will be started\x1b[0m`,
+          );
+        }
+      }
+      return usage.budgetExceeded;
+    };
+
+    // Progress tracking, shared by onProgress and the job's event iterators
+    const progressController = {
+      listeners: [] as Array<(event: SynthesisEvent<T>) => void>,
+      startTime: Date.now(),
+      batchStartTime: 0,
+      currentProgress: {
+        batchesComplete: 0,
+        batchCount: totalBatches,
+        currentBatch: {
+          stagesComplete: 0,
+          stageCount: typeDefinition.stages.length,
+        },
+        elapsedTime: 0,
+        currentBatchTime: 0,
+        countMismatches: 0,
+        usage: usage.total,
+      } as SynthesisJobProgress,
+
+      // A copy of the current progress, which later updates don't change
+      snapshot(): SynthesisJobProgress {
+        return {
+          ...this.currentProgress,
+          currentBatch: { ...this.currentProgress.currentBatch },
+          usage: { ...usage.total },
+        };
+      },
+
+      emit() {
+        // Update timing information
+        const now = Date.now();
+        this.currentProgress.elapsedTime = now - this.startTime;
+        this.currentProgress.currentBatchTime = now - this.batchStartTime;
+
+        // Call onProgress callback if provided
         if (options.onProgress) {
-          options.onProgress(progress);
+          options.onProgress(this.snapshot());
+        }
+      },
+
+      publish(event: DistributiveOmit<SynthesisEvent<T>, "progress">) {
+        const progress = { ...this.snapshot(), elapsedTime: Date.now() - this.startTime };
+        for (const listener of this.listeners) {
+          listener({ ...event, progress } as SynthesisEvent<T>);
         }
       },
     };
 
+    const invalidItems: InvalidItem<T>[] = [];
+
+    // Outputs each running batch added to the cached stage outputs, by stage index, saved to the
+    // checkpoint when the batch completes
+    const batchCachedOutputs = new Map<number, Record<number, Partial<WithHints<T>>[]>>();
+
+    const failureMode = options.failureMode ?? "fail-fast";
+    const failures: FailedBatch<T>[] = [];
+
+    // The items of each running batch and the next stage to run them through, kept so that a
+    // failed batch can be recorded with its partial data
+    const batchStates = new Map<number, { stageIndex: number; items: Partial<WithHints<T>>[] }>();
+
+    const duplicates: DuplicateItem<Partial<WithHints<T>>>[] = [];
+
+    const store = new JobStore();
+
     /**
-     * Process a single batch through all stages
+     * Validate a completed batch against the type's Zod schema, repairing invalid items with the
+     * model when possible. Returns only the valid items.
+     */
+    const validateBatch = async (
+      batch: Partial<WithHints<T>>[],
+      context: StageContext<T>,
+    ): Promise<Partial<WithHints<T>>[]> => {
+      const schema = typeDefinition.zodSchema;
+      if (!options.validate || !schema) return batch;
+
+      const validation = typeof options.validate === "object" ? options.validate : {};
+      const repairAttempts = validation.repairAttempts ?? 2;
+      const validated = [...batch];
+      let invalid = batch
+        .map((item, index) => ({ index, errors: validationErrors(schema, item) }))
+        .filter(({ errors }) => errors.length > 0);
+
+      for (let attempt = 0; attempt < repairAttempts && invalid.length > 0; attempt++) {
+        if (loggingLevel === "info" || loggingLevel === "debug") {
+          console.log(
+            `\x1b[33m🩹 [Genthetic] Batch ${context.batchNumber + 1}/${totalBatches} - repairing ${
+              invalid.length
+            } invalid item(s) (attempt ${attempt + 1}/${repairAttempts})\x1b[0m`,
+          );
+        }
+
+        const repaired = await this.repairSyntheticData(
+          {
+            items: stripHints(invalid.map(({ index }) => validated[index])),
+            errors: invalid.map(({ errors }) => errors),
+            schema: typeDefinition.jsonSchema,
+            instructions: validation.instructions,
+            model: validation.model,
+          },
+          context,
+        );
+
+        invalid = invalid
+          .map(({ index, errors }, i) => {
+            if (!repaired[i]) return { index, errors };
+            validated[index] = { ...validated[index], ...repaired[i] };
+            return { index, errors: validationErrors(schema, validated[index]) };
+          })
+          .filter(({ errors }) => errors.length > 0);
+      }
+
+      for (const { index, errors } of invalid) {
+        invalidItems.push({ batchNumber: context.batchNumber, item: validated[index], errors });
+        if (loggingLevel !== "none") {
+          console.log(
+            `\x1b[33m⚠️ [Genthetic] WARNING: Invalid item in Batch ${
+              context.batchNumber + 1
+            }/${totalBatches} excluded from results: ${errors.join("; ")}\x1b[0m`,
+          );
+        }
+      }
+
+      const invalidIndexes = new Set(invalid.map(({ index }) => index));
+      return validated.filter((_, index) => !invalidIndexes.has(index));
+    };
+
+    // With a rate limiter, it retries rate limit errors itself, so stages don't retry them again
+    const limiter = this.limiter;
+    const defaultRetryable = (error: unknown) =>
+      !(limiter && isRateLimitError(error)) && isRetryableError(error);
+
+    // Fill in a retry policy's unset values from the job's options
+    const retryPolicy = (policy?: RetryPolicy): Required<RetryPolicy> => ({
+      maxAttempts: policy?.maxAttempts ?? (options.maxRetries ?? 3) + 1,
+      retryable: policy?.retryable ?? defaultRetryable,
+      baseDelayMs: policy?.baseDelayMs ?? options.retryDelayMs ?? 200,
+      maxDelayMs: policy?.maxDelayMs ?? 30_000,
+    });
+
+    /**
+     * Run a stage of a batch, or its validation, retrying failed attempts according to `retry`.
+     * Throws a `StageError` with the errors of all attempts once an error can't be retried.
+     */
+    const runWithRetry = async <R>(
+      batchNumber: number,
+      stageIndex: number,
+      stageName: string | undefined,
+      retry: Required<RetryPolicy>,
+      run: () => R | Promise<R>,
+    ): Promise<R> => {
+      const errors: unknown[] = [];
+      for (let attempt = 1; ; attempt++) {
+        try {
+          signal.throwIfAborted();
+          return await run();
+        } catch (error) {
+          if (signal.aborted) throw error;
+          errors.push(error);
+          progressController.publish({ type: "error", batchNumber, stageIndex, error });
+
+          const willRetry = attempt < retry.maxAttempts && retry.retryable(error);
+          if (loggingLevel === "warning" || loggingLevel === "info" || loggingLevel === "debug") {
+            console.log(
+              `\x1b[33m⚠️ [Genthetic] WARNING: Error in Batch ${batchNumber + 1}/${totalBatches} - ${
+                stageName || `Stage ${stageIndex + 1}`
+              } (attempt ${attempt}/${retry.maxAttempts})${willRetry ? ", retrying" : ""}: ${
+                error instanceof Error ? error.message : String(error)
+              }\x1b[0m`,
+            );
+          }
+          if (!willRetry) {
+            throw new StageError({ batchNumber, stageIndex, stageName, errors });
+          }
+
+          // Exponential backoff with jitter, unless the error says when to retry
+          const backoff = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+          const seed = deriveSeed(deriveSeed(jobSeed, batchNumber), stageIndex, attempt);
+          const jitter = 0.85 + createRandom(seed)() * 0.3;
+          const delay = retryAfterMs(error) ?? Math.round(backoff * jitter);
+          progressController.publish({ type: "retry", batchNumber, stageIndex, attempt });
+          await sleep(delay, undefined, { signal });
+        }
+      }
+    };
+
+    /**
+     * Process a single batch through all stages, or through the remaining stages of a failed batch
      */
     const processBatch = async (
       batchNumber: number,
       cachedOutputs: Partial<WithHints<T>>[][],
+      failed?: FailedBatch<T>,
     ): Promise<Partial<WithHints<T>>[]> => {
       const isLastBatch = batchNumber === totalBatches - 1;
       const currentBatchSize = isLastBatch ? totalCount - batchNumber * batchSize : batchSize;
 
       // Record batch start time
       progressController.batchStartTime = Date.now();
+      progressController.publish({ type: "batch-started", batchNumber });
       const totalElapsedSeconds = (
         (progressController.batchStartTime - progressController.startTime) /
         1000
@@ -414,79 +1706,144 @@ export class Genthetic {
         );
       }
 
-      // Initialize empty objects for the batch
-      let currentBatch: Partial<WithHints<T>>[] = Array(currentBatchSize)
-        .fill(null)
-        .map(() => ({}));
+      if (failed) {
+        // Claim the unique values and keep the dedupe entries the batch had when it failed,
+        // for the stages it continues with
+        for (const item of failed.partialData) {
+          const values = item as Record<string, any>;
+          for (const index of uniqueIndexes.values()) {
+            if (index.keys.some((key) => values[key] !== undefined)) {
+              index.claim(item, batchNumber);
+            }
+          }
+          for (const index of dedupeIndexes.values()) {
+            if (index.fields.some((field) => values[field] !== undefined) && !index.find(item)) {
+              index.add(item, batchNumber);
+            }
+          }
+        }
+      }
+
+      // Initialize the batch with each item's stratified values
+      const strata = stratifiedValues();
+      let currentBatch: Partial<WithHints<T>>[] =
+        failed?.partialData ??
+        Array.from({ length: currentBatchSize }, (_, i) => {
+          const item: Record<string, unknown> = {};
+          for (const [field, values] of strata) item[field] = values[batchNumber * batchSize + i];
+          return item as Partial<WithHints<T>>;
+        });
+
+      // The stage being run, for usage accounting (unset while validating)
+      let currentStage: number | undefined;
 
       // Setup the context object for this batch
+      const batchSeed = deriveSeed(jobSeed, batchNumber);
       const context: StageContext<T> = {
         batchNumber,
         batches: totalBatches,
         count: totalCount,
         type: typeDefinition,
         previousData: cachedOutputs.flat(), // Provide all previously cached data
+        options,
+        onGenerateEvent: (event) => {
+          if (event.type === "usage") {
+            recordUsage(event, batchNumber, currentStage);
+          } else if (event.type === "request") {
+            progressController.publish({
+              type: "request",
+              batchNumber,
+              stageIndex: currentStage,
+              request: event.request,
+            });
+          } else if (event.type === "count-mismatch") {
+            progressController.currentProgress.countMismatches++;
+            if (loggingLevel !== "none") {
+              console.log(
+                `\x1b[33m⚠️ [Genthetic] WARNING: Model returned ${event.received} of ${
+                  event.expected
+                } requested objects in Batch ${batchNumber + 1}/${totalBatches} (${
+                  event.recovered ? "recovered with follow-up requests" : "could not recover"
+                })\x1b[0m`,
+              );
+            }
+          }
+        },
+        seed: batchSeed,
+        random: createRandom(batchSeed),
+        signal,
+        firstIndex: batchNumber * batchSize,
+        store,
+        uniqueIndex,
+        dedupeIndex,
       };
 
       // Run each stage
-      for (let stageIndex = 0; stageIndex < typeDefinition.stages.length; stageIndex++) {
+      const firstStage = failed?.stageIndex ?? 0;
+      for (let stageIndex = firstStage; stageIndex < typeDefinition.stages.length; stageIndex++) {
         const stage = typeDefinition.stages[stageIndex];
+        batchStates.set(batchNumber, { stageIndex, items: currentBatch });
         progressController.currentProgress.currentBatch.stagesComplete = stageIndex;
         progressController.emit();
 
-        // Run the stage
-        try {
-          if (typeof stage.run === "function") {
-            currentBatch = await Promise.resolve(stage.run(currentBatch, context));
-          } else {
-            throw new Error(`Stage ${stageIndex} does not have a valid run function`);
-          }
-
-          // Cache the output if this stage has cacheOutput enabled
-          if (stage.cacheOutput) {
-            if (!cachedOutputs[stageIndex]) {
-              cachedOutputs[stageIndex] = [];
+        // Run the stage, retrying failed attempts according to its retry policy
+        currentStage = stageIndex;
+        currentBatch = await runWithRetry(
+          batchNumber,
+          stageIndex,
+          stage.name,
+          retryPolicy(stage.retry),
+          async () => {
+            if (typeof stage.run !== "function") {
+              throw new TypeError(`Stage ${stageIndex} does not have a valid run function`);
             }
-            cachedOutputs[stageIndex].push(...currentBatch);
+            const stageContext = withSeed(context, deriveSeed(context.seed, stageIndex));
+            return stage.run(currentBatch, stageContext);
+          },
+        );
 
-            if (loggingLevel === "debug") {
-              console.log(
-                `\x1b[36m💾 [Genthetic] Cached output for stage ${stageIndex + 1} (${
-                  cachedOutputs[stageIndex].length
-                } items total)\x1b[0m`,
-              );
-            }
+        // Cache the output if this stage has cacheOutput enabled
+        if (stage.cacheOutput) {
+          if (!cachedOutputs[stageIndex]) {
+            cachedOutputs[stageIndex] = [];
           }
+          cachedOutputs[stageIndex].push(...currentBatch);
+          const batchOutputs = batchCachedOutputs.get(batchNumber) ?? {};
+          batchOutputs[stageIndex] = [...(batchOutputs[stageIndex] ?? []), ...currentBatch];
+          batchCachedOutputs.set(batchNumber, batchOutputs);
 
-          // Log debug info for stage completion
           if (loggingLevel === "debug") {
-            const stageName = stage.name || `Stage ${stageIndex + 1}`;
-            const percentComplete = Math.round(
-              ((stageIndex + 1) / typeDefinition.stages.length) * 100,
-            );
-            const stageTime = ((Date.now() - progressController.batchStartTime) / 1000).toFixed(2);
-            console.log(
-              `\x1b[36m🔧 [Genthetic] Batch ${
-                batchNumber + 1
-              }/${totalBatches} - ${stageName} completed (${percentComplete}% of batch processing, batch time so far: ${stageTime}s)\x1b[0m`,
-            );
-          }
-        } catch (error) {
-          // Log warning if a retry would be needed
-          if (loggingLevel === "warning" || loggingLevel === "info" || loggingLevel === "debug") {
-            const stageName = stage.name || `Stage ${stageIndex + 1}`;
             console.log(
-              `\x1b[33m⚠️ [Genthetic] WARNING: Error in Batch ${
-                batchNumber + 1
-              }/${totalBatches} - ${stageName} - retry would be needed\x1b[0m`,
+              `\x1b[36m💾 [Genthetic] Cached output for stage ${stageIndex + 1} (${
+                cachedOutputs[stageIndex].length
+              } items total)\x1b[0m`,
             );
           }
-          throw error; // Re-throw the error to be handled by the throttler if applicable
+        }
+
+        // Log debug info for stage completion
+        if (loggingLevel === "debug") {
+          const stageName = stage.name || `Stage ${stageIndex + 1}`;
+          const percentComplete = Math.round(
+            ((stageIndex + 1) / typeDefinition.stages.length) * 100,
+          );
+          const stageTime = ((Date.now() - progressController.batchStartTime) / 1000).toFixed(2);
+          console.log(
+            `\x1b[36m🔧 [Genthetic] Batch ${
+              batchNumber + 1
+            }/${totalBatches} - ${stageName} completed (${percentComplete}% of batch processing, batch time so far: ${stageTime}s)\x1b[0m`,
+          );
         }
 
         // Update progress
         progressController.currentProgress.currentBatch.stagesComplete = stageIndex + 1;
         progressController.emit();
+        progressController.publish({
+          type: "stage-completed",
+          batchNumber,
+          stageIndex,
+          stageName: stage.name,
+        });
       }
 
       // Log batch completion for info/debug level
@@ -504,7 +1861,57 @@ export class Genthetic {
         );
       }
 
-      return currentBatch;
+      currentStage = undefined;
+      batchStates.set(batchNumber, {
+        stageIndex: typeDefinition.stages.length,
+        items: currentBatch,
+      });
+      // Validation and repair are retried like a stage, with the job's retry options
+      const validated = await runWithRetry(
+        batchNumber,
+        typeDefinition.stages.length,
+        "validate",
+        retryPolicy(),
+        () => validateBatch(currentBatch, context),
+      );
+      batchStates.delete(batchNumber);
+
+      // Free the unique values and dedupe entries of items dropped by later stages or validation
+      for (const index of uniqueIndexes.values()) index.releaseBatch(batchNumber, validated);
+      for (const index of dedupeIndexes.values()) index.removeBatch(batchNumber, validated);
+
+      const batchUsage = usage.byBatch[batchNumber];
+      completedUsage.batches++;
+      completedUsage.tokens += batchUsage.inputTokens + batchUsage.outputTokens;
+      completedUsage.cost += batchUsage.cost ?? 0;
+      return validated;
+    };
+
+    // Callbacks of batches waiting for a running batch to finish before they start
+    const batchWaiters: Array<() => void> = [];
+
+    /**
+     * Process a batch once the job's budget allows it to start. Resolves to undefined without
+     * processing the batch once the budget is reached. Batch usage can only be estimated once a
+     * batch completes, so until then jobs with a budget run one batch at a time.
+     */
+    const processWithinBudget = async (
+      batchNumber: number,
+      cachedOutputs: Partial<WithHints<T>>[][],
+      failed?: FailedBatch<T>,
+    ): Promise<Partial<WithHints<T>>[] | undefined> => {
+      while (options.budget && !completedUsage.batches && runningBatches > 0) {
+        await new Promise<void>((resolve) => batchWaiters.push(resolve));
+      }
+      if (overBudget()) return undefined;
+
+      runningBatches++;
+      try {
+        return await processBatch(batchNumber, cachedOutputs, failed);
+      } finally {
+        runningBatches--;
+        for (const resolve of batchWaiters.splice(0)) resolve();
+      }
     };
 
     /**
@@ -514,28 +1921,309 @@ export class Genthetic {
       batchNumber: number,
       batch: Partial<WithHints<T>>[],
       results: Partial<WithHints<T>>[],
+      resumed = false,
     ): void => {
       // Add batch results to total results
       results.push(...batch);
 
-      // Call onBatch callback if provided
-      options.onBatch?.(batch, { batchNumber });
+      // Call onBatch callback if provided (resumed batches were already seen by a previous run)
+      if (!resumed) options.onBatch?.(batch, { batchNumber });
 
-      // Write data to file if outFile is specified
-      writeData(options?.outFile, stripHints<T>(results));
+      // Write the batch to the output file and sinks, keeping writes in batch order
+      if (output) {
+        const { writers } = output;
+        const items = stripHints<T>(batch);
+        output.writes = output.writes.then(async () => {
+          for (const writer of writers) await writer.write(items);
+        });
+        // Write errors are reported when the job finishes
+        output.writes.catch(() => {});
+      }
 
       // Update progress
       progressController.currentProgress.batchesComplete = batchNumber + 1;
       progressController.emit();
+      progressController.publish({
+        type: "batch-completed",
+        batchNumber,
+        items: stripHints<T>(batch),
+        resumed,
+      });
+    };
+
+    /**
+     * Record a failed batch in `failures`, or rethrow its error when the job's failure mode is
+     * `fail-fast` or the job was cancelled
+     */
+    const recordFailure = (batchNumber: number, error: unknown): void => {
+      // Values claimed and items kept by a batch that isn't output are free for other batches
+      for (const index of uniqueIndexes.values()) index.releaseBatch(batchNumber);
+      for (const index of dedupeIndexes.values()) index.removeBatch(batchNumber);
+      if (failureMode === "fail-fast" || signal.aborted) throw error;
+
+      const state = batchStates.get(batchNumber) ?? { stageIndex: 0, items: [] };
+      batchStates.delete(batchNumber);
+
+      // Keep failures in batch order, replacing the previous failure of a retried batch
+      const failure: FailedBatch<T> = {
+        batchNumber,
+        error,
+        stageIndex: state.stageIndex,
+        partialData: state.items,
+      };
+      let index = failures.findIndex((other) => other.batchNumber >= batchNumber);
+      if (index === -1) index = failures.length;
+      const replaced = failures[index]?.batchNumber === batchNumber ? 1 : 0;
+      failures.splice(index, replaced, failure);
+
+      progressController.publish({ type: "batch-failed", batchNumber, error });
+      if (loggingLevel !== "none") {
+        console.log(
+          `\x1b[33m⚠️ [Genthetic] WARNING: Batch ${batchNumber + 1}/${totalBatches} ${
+            failureMode === "skip" ? "skipped" : "quarantined"
+          } after failing: ${error instanceof Error ? error.message : String(error)}\x1b[0m`,
+        );
+      }
+    };
+
+    // Batches saved to the checkpoint, rewritten to a new checkpoint file when the job starts
+    let checkpointBatches: CheckpointBatch<Partial<WithHints<T>>>[] = [];
+
+    /**
+     * Restore completed batches, cached stage outputs, invalid items and the store from the
+     * checkpoint file.
+     * Returns the numbers of the restored batches.
+     */
+    const restoreCheckpoint = (
+      completedBatches: Partial<WithHints<T>>[][],
+      cachedStageOutputs: Partial<WithHints<T>>[][],
+    ): Set<number> => {
+      const file = options.checkpoint!;
+      const checkpoint = readCheckpoint<Partial<WithHints<T>>>(file);
+      if (!checkpoint) return new Set();
+
+      const expected = {
+        type: typeDefinition.name,
+        batchSize,
+        batchCount: totalBatches,
+        totalCount,
+      };
+      const actual = {
+        type: checkpoint.type,
+        batchSize: checkpoint.batchSize,
+        batchCount: checkpoint.batchCount,
+        totalCount: checkpoint.count,
+      };
+      if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+        throw new Error(
+          `Checkpoint ${file} was created by a different job (expected ${JSON.stringify(
+            expected,
+          )}, found ${JSON.stringify(actual)})`,
+        );
+      }
+      if (options.seed !== undefined && options.seed !== checkpoint.seed) {
+        throw new Error(
+          `Checkpoint ${file} was created with seed ${checkpoint.seed}, not ${options.seed}`,
+        );
+      }
+      jobSeed = checkpoint.seed;
+
+      const restored = new Set<number>();
+      for (const batch of checkpoint.batches) {
+        completedBatches[batch.batchNumber] = batch.items;
+        restored.add(batch.batchNumber);
+        for (const [stageIndex, outputs] of Object.entries(batch.cachedStageOutputs)) {
+          (cachedStageOutputs[Number(stageIndex)] ??= []).push(...outputs);
+        }
+        invalidItems.push(...batch.invalidItems);
+      }
+      checkpointBatches = checkpoint.batches;
+
+      // The store as it was when the last batch was saved
+      const entries = [...checkpoint.batches].reverse().find((batch) => batch.store)?.store;
+      if (entries) {
+        store.clear();
+        for (const [key, value] of entries) store.set(key, value);
+      }
+
+      if (loggingLevel === "info" || loggingLevel === "debug") {
+        console.log(
+          `\x1b[34m⏩ [Genthetic] Resuming from checkpoint (${restored.size}/${totalBatches} batches complete)\x1b[0m`,
+        );
+      }
+      return restored;
+    };
+
+    /**
+     * Start the checkpoint file with the job's header and any restored batches, if one is
+     * configured
+     */
+    const startCheckpoint = (): void => {
+      if (!options.checkpoint || options.dryRun) return;
+
+      writeCheckpoint(options.checkpoint, {
+        version: 2,
+        type: typeDefinition.name,
+        seed: jobSeed,
+        batchSize,
+        batchCount: totalBatches,
+        count: totalCount,
+        batches: checkpointBatches,
+      });
+    };
+
+    /**
+     * Add a completed batch to the checkpoint file, if one is configured
+     */
+    const saveCheckpoint = (batchNumber: number, batch: Partial<WithHints<T>>[]): void => {
+      const cachedStageOutputs = batchCachedOutputs.get(batchNumber) ?? {};
+      batchCachedOutputs.delete(batchNumber);
+      if (!options.checkpoint || options.dryRun) return;
+
+      appendCheckpointBatch(options.checkpoint, {
+        batchNumber,
+        items: batch,
+        cachedStageOutputs,
+        invalidItems: invalidItems.filter((invalid) => invalid.batchNumber === batchNumber),
+        store: [...store],
+      });
+    };
+
+    // Writers for the output file and sinks, and their pending writes, created when the job starts
+    let output: { writers: OutputWriter[]; writes: Promise<void> } | undefined;
+
+    const closeOutput = async () => {
+      await output?.writes;
+      for (const writer of output?.writers ?? []) await writer.close();
+    };
+
+    // Batches that have finished processing, indexed by batch number (may complete out of order)
+    const completedBatches: Partial<WithHints<T>>[][] = [];
+
+    // Cache for stage outputs across batches
+    const cachedStageOutputs: Partial<WithHints<T>>[][] = [];
+
+    // Stratified values of each item, by field. Allocated when the first batch starts, after the
+    // job's seed is restored from a checkpoint.
+    let strata: Array<[string, unknown[]]> | undefined;
+    const stratifiedValues = () =>
+      (strata ??= Object.entries(options.stratify ?? {}).map(([field, weights]) => [
+        field,
+        allocateStrata(weights, totalCount, deriveSeed(jobSeed, "stratify", field)),
+      ]));
+
+    // Indexes of the values claimed for unique keys, by key fields
+    const uniqueIndexes = new Map<string, UniqueIndex>();
+    const uniqueIndex = (keys: string[]): UniqueIndex => {
+      const id = JSON.stringify(keys);
+      let index = uniqueIndexes.get(id);
+      if (!index) {
+        index = new UniqueIndex(keys);
+        // Batches restored from a checkpoint already use their values
+        for (const item of completedBatches.flat()) index.claim(item);
+        uniqueIndexes.set(id, index);
+      }
+      return index;
+    };
+
+    // Indexes of the items kept by dedupe stages, by compared fields and comparison
+    const dedupeIndexes = new Map<string, DedupeIndex<Partial<WithHints<T>>>>();
+    const dedupeIndex = (
+      fields: string[],
+      { mode, threshold }: { mode?: DedupeMode; threshold?: number } = {},
+    ): DedupeIndex<Partial<WithHints<T>>> => {
+      const id = JSON.stringify([fields, mode, threshold]);
+      let index = dedupeIndexes.get(id);
+      if (!index) {
+        index = new DedupeIndex(fields, { mode, threshold }, duplicates);
+        // Batches restored from a checkpoint were already deduplicated
+        for (const item of completedBatches.flat()) index.add(item);
+        dedupeIndexes.set(id, index);
+      }
+      return index;
     };
 
     // Create the actual data generation promise
     const generatePromise = async (): Promise<T[]> => {
       const results: Partial<WithHints<T>>[] = [];
 
-      // Cache for stage outputs across batches
-      const cachedStageOutputs: Partial<WithHints<T>>[][] = [];
+      const writers: OutputWriter[] = [];
+      if (options.outFile && !options.dryRun) {
+        writers.push(
+          createOutputWriter(
+            { file: options.outFile, jsonSchema: typeDefinition.jsonSchema },
+            options.format,
+          ),
+        );
+      }
+      for (const sink of options.dryRun ? [] : [options.sink ?? []].flat()) {
+        writers.push(
+          await sink.open({ type: typeDefinition, jsonSchema: typeDefinition.jsonSchema }),
+        );
+      }
+      if (writers.length) output = { writers, writes: Promise.resolve() };
+
+      const resumedBatches =
+        options.resume && !options.dryRun
+          ? restoreCheckpoint(completedBatches, cachedStageOutputs)
+          : new Set<number>();
+      startCheckpoint();
+
+      try {
+        await runBatches(results, completedBatches, cachedStageOutputs, resumedBatches);
+      } catch (error) {
+        // Keep the batches written so far, without hiding the original error
+        try {
+          await closeOutput();
+        } catch {}
+
+        if (signal.aborted) {
+          if (loggingLevel !== "none") {
+            console.log(`\x1b[33m⚠️ [Genthetic] Synthesis cancelled\x1b[0m`);
+          }
+          throw new SynthesisCancelledError(stripHints<T>(completedBatches.flat()), signal.reason);
+        }
+        throw error;
+      }
+
+      // Log completion of all batches
+      if (loggingLevel !== "none") {
+        const totalTime = ((Date.now() - progressController.startTime) / 1000).toFixed(2);
+        const { requests, inputTokens, outputTokens, cost } = usage.total;
+        const usageSummary = requests
+          ? ` using ${inputTokens + outputTokens} tokens${
+              cost !== undefined ? ` (estimated cost ${cost.toFixed(4)})` : ""
+            }`
+          : "";
+        // e.g. "3 duplicate(s) dropped, 1 batch(es) failed"
+        const verbs = { drop: "dropped", regenerate: "regenerated", flag: "flagged" };
+        const notes = Object.entries(verbs).flatMap(([action, verb]) => {
+          const count = duplicates.filter((duplicate) => duplicate.action === action).length;
+          return count ? [`${count} duplicate(s) ${verb}`] : [];
+        });
+        if (failures.length) notes.push(`${failures.length} batch(es) failed`);
+        console.log(
+          `\x1b[35m🎉 [Genthetic] Synthesis complete! Generated ${results.length} items in ${totalTime}s${usageSummary}${
+            notes.length ? ` (${notes.join(", ")})` : ""
+          }\x1b[0m`,
+        );
+      }
+
+      const strippedResults = stripHints<T>(results);
+      await closeOutput();
+      progressController.publish({ type: "done", results: strippedResults });
+      return strippedResults;
+    };
 
+    /**
+     * Process all batches, serially or in parallel depending on the type's stages
+     */
+    const runBatches = async (
+      results: Partial<WithHints<T>>[],
+      completedBatches: Partial<WithHints<T>>[][],
+      cachedStageOutputs: Partial<WithHints<T>>[][],
+      resumedBatches: Set<number>,
+    ): Promise<void> => {
       // Check if any stage requires cacheOutput (which requires sequential processing)
       const requiresSerialProcessing = typeDefinition.stages.some((stage) => stage.cacheOutput);
 
@@ -549,7 +2237,20 @@ export class Genthetic {
 
         // Process each batch sequentially
         for (let batchNumber = 0; batchNumber < totalBatches; batchNumber++) {
-          const batch = await processBatch(batchNumber, cachedStageOutputs);
+          if (resumedBatches.has(batchNumber)) {
+            processBatchResults(batchNumber, completedBatches[batchNumber], results, true);
+            continue;
+          }
+          let batch: Partial<WithHints<T>>[] | undefined;
+          try {
+            batch = await processWithinBudget(batchNumber, cachedStageOutputs);
+          } catch (error) {
+            recordFailure(batchNumber, error);
+            continue;
+          }
+          if (!batch) break;
+          completedBatches[batchNumber] = batch;
+          saveCheckpoint(batchNumber, batch);
           processBatchResults(batchNumber, batch, results);
         }
       } else {
@@ -564,42 +2265,208 @@ export class Genthetic {
         // Create throttler for concurrent batch processing
         const throttler = new Throttler({
           concurrency: options.concurrency,
-          maxRetries: options.maxRetries,
-          baseRetryDelayMs: options.retryDelayMs,
           debug: loggingLevel === "debug",
+          // Failed stages are retried within the batch, so batch errors are final
+          retryable: () => false,
+          signal,
         });
 
         // Queue all batches for processing
-        const batchPromises: Promise<Partial<WithHints<T>>[]>[] = [];
+        // Batches skipped because of the job's budget resolve to undefined, and failed batches
+        // that the job's failure mode tolerates resolve to null
+        const batchPromises: Promise<Partial<WithHints<T>>[] | undefined | null>[] = [];
 
         for (let batchNumber = 0; batchNumber < totalBatches; batchNumber++) {
+          if (resumedBatches.has(batchNumber)) {
+            batchPromises.push(Promise.resolve(completedBatches[batchNumber]));
+            continue;
+          }
+
           // Create a closure to capture the correct batch number
-          const promise = throttler.run(() => processBatch(batchNumber, cachedStageOutputs));
+          const promise = throttler
+            .run(async () => processWithinBudget(batchNumber, cachedStageOutputs))
+            .then((batch) => {
+              if (!batch) return batch;
+              completedBatches[batchNumber] = batch;
+              saveCheckpoint(batchNumber, batch);
+              return batch;
+            })
+            .catch((error) => {
+              recordFailure(batchNumber, error);
+              return null;
+            });
+          // Failures are handled when results are processed in order below
+          promise.catch(() => {});
           batchPromises.push(promise);
         }
 
         // Process results in order (important to maintain batch order)
         for (let batchNumber = 0; batchNumber < totalBatches; batchNumber++) {
           const batch = await batchPromises[batchNumber];
-          processBatchResults(batchNumber, batch, results);
+          if (batch === null) continue;
+          if (!batch) break;
+          processBatchResults(batchNumber, batch, results, resumedBatches.has(batchNumber));
         }
       }
+    };
 
-      // Log completion of all batches
-      if (loggingLevel !== "none") {
-        const totalTime = ((Date.now() - progressController.startTime) / 1000).toFixed(2);
-        console.log(
-          `\x1b[35m🎉 [Genthetic] Synthesis complete! Generated ${totalCount} items in ${totalTime}s\x1b[0m`,
-        );
+    // The job starts when complete() is first called; later calls share the same result
+    let completion: Promise<T[]> | undefined;
+    const complete = () => (completion ??= generatePromise());
+
+    /**
+     * Retry the quarantined batches of a completed job, continuing each from its failed stage
+     */
+    const retryFailed = async (): Promise<T[]> => {
+      if (failureMode !== "quarantine") {
+        throw new Error('retryFailed() requires failureMode "quarantine"');
       }
+      if (!completion) throw new Error("retryFailed() can only be called after the job completes");
+      await completion;
+
+      // Stages that cache their output need batches to run one at a time
+      const throttler = new Throttler({
+        concurrency: typeDefinition.stages.some((stage) => stage.cacheOutput)
+          ? 1
+          : options.concurrency,
+        retryable: () => false,
+        signal,
+      });
+      await Promise.all(
+        [...failures].map((failure) =>
+          throttler.run(async () => {
+            const { batchNumber } = failure;
+            let batch: Partial<WithHints<T>>[] | undefined;
+            try {
+              batch = await processWithinBudget(batchNumber, cachedStageOutputs, failure);
+            } catch (error) {
+              recordFailure(batchNumber, error);
+              return;
+            }
+            // Batches left once the budget is reached stay quarantined
+            if (!batch) return;
+            failures.splice(failures.indexOf(failure), 1);
+            completedBatches[batchNumber] = batch;
+            saveCheckpoint(batchNumber, batch);
+            options.onBatch?.(batch, { batchNumber });
+            progressController.publish({
+              type: "batch-completed",
+              batchNumber,
+              items: stripHints<T>(batch),
+              resumed: false,
+            });
+          }),
+        ),
+      );
 
-      const strippedResults = stripHints<T>(results);
-      writeData(options?.outFile, strippedResults);
-      return strippedResults;
+      return stripHints<T>(completedBatches.flat());
     };
 
+    /**
+     * Iterate over the job's events, starting the job if needed. Events emitted before iteration
+     * starts are not replayed. Throws the job's error once all events have been yielded.
+     */
+    async function* events(): AsyncGenerator<SynthesisEvent<T>> {
+      const queue: SynthesisEvent<T>[] = [];
+      let notify: (() => void) | undefined;
+      const listener = (event: SynthesisEvent<T>) => {
+        queue.push(event);
+        notify?.();
+      };
+      progressController.listeners.push(listener);
+
+      let settled = false;
+      let failure: { error: unknown } | undefined;
+      complete()
+        .catch((error) => (failure = { error }))
+        .finally(() => {
+          settled = true;
+          notify?.();
+        });
+
+      try {
+        while (queue.length || !settled) {
+          if (queue.length) {
+            yield queue.shift()!;
+          } else {
+            await new Promise<void>((resolve) => (notify = resolve));
+            notify = undefined;
+          }
+        }
+        if (failure) throw failure.error;
+      } finally {
+        progressController.listeners.splice(progressController.listeners.indexOf(listener), 1);
+      }
+    }
+
     return {
-      complete: generatePromise,
+      complete,
+      cancel: (reason?: unknown) => abortController.abort(reason),
+      invalidItems,
+      distributionReport: () => {
+        const targets = new Map(typeDefinition.distributions);
+        for (const [field, weights] of Object.entries(options.stratify ?? {})) {
+          targets.set(field, { kind: "categorical", weights: normalizeWeights(weights) });
+        }
+        return distributionReport(stripHints(completedBatches.flat()), targets);
+      },
+      duplicates,
+      failures,
+      retryFailed,
+      store,
+      usage,
+      [Symbol.asyncIterator]: events,
+      batches: async function* () {
+        for await (const event of events()) {
+          if (event.type === "batch-completed" && !event.resumed) yield event.items;
+        }
+      },
+    };
+  }
+
+  /**
+   * Synthesize several related types, running each type after the types it depends on so that
+   * `ref()` and `belongsTo()` helpers can pick from their completed results. Dependencies that
+   * aren't listed are synthesized with the default options.
+   *
+   * @param types Type definitions, optionally paired with their own synthesis options
+   * @param defaults Options applied to every type (overridden by per-type options)
+   * @returns The results of each type, keyed by type name
+   */
+  async synthesizeAll(
+    types: Array<TypeDefinition<any> | [TypeDefinition<any>, SynthesizeOptions]>,
+    defaults: SynthesizeOptions = {},
+  ): Promise<Record<string, any[]>> {
+    const typeOptions = new Map<TypeDefinition<any>, SynthesizeOptions>();
+    for (const entry of types) {
+      const [type, options] = Array.isArray(entry) ? entry : [entry, {}];
+      typeOptions.set(type, options);
+    }
+
+    // Order types so that every type comes after its dependencies
+    const ordered: TypeDefinition<any>[] = [];
+    const visiting: TypeDefinition<any>[] = [];
+    const visit = (type: TypeDefinition<any>) => {
+      if (ordered.includes(type)) return;
+      if (visiting.includes(type)) {
+        const cycle = [...visiting.slice(visiting.indexOf(type)), type];
+        throw new Error(`Circular type dependency: ${cycle.map((t) => t.name).join(" -> ")}`);
+      }
+      visiting.push(type);
+      for (const dependency of type.dependencies) visit(dependency);
+      visiting.pop();
+      ordered.push(type);
     };
+    for (const type of typeOptions.keys()) visit(type);
+
+    const references = new Map<TypeDefinition<any>, any[]>(defaults.references);
+    const results: Record<string, any[]> = {};
+    for (const type of ordered) {
+      const options = { ...defaults, ...typeOptions.get(type), references };
+      const typeResults = await this.synthesize(type, options).complete();
+      references.set(type, typeResults);
+      results[type.name] = typeResults;
+    }
+    return results;
   }
 }
@@ -1,9 +1,18 @@
-export { Genthetic, TypeDefinition } from "./genthetic.js";
+export { Genthetic, StageError, SynthesisCancelledError, TypeDefinition } from "./genthetic.js";
+export { Throttler, isRateLimitError, isRetryableError, retryAfterMs } from "./throttler.js";
+export { ref, belongsTo } from "./relations.js";
 export { z } from "genkit";
 export type {
+  FailedBatch,
+  FailureMode,
   FillShape,
+  GenerateFieldOptions,
   GenerateOptions,
+  GentheticOptions,
+  RateLimitOptions,
+  RetryPolicy,
   Stage,
+  StageOptions,
   StageContext,
   StageFn,
   SynthesisJob,
@@ -11,4 +20,45 @@ export type {
   SynthesizeOptions,
   WithHints,
   TypeDefinitionOptions,
+  ValidationOptions,
+  InvalidItem,
+  SynthesisEvent,
+  PreviewOptions,
+  PreviewRequest,
+  TypePreview,
 } from "./genthetic.js";
+export type { MockModelOptions } from "./mock.js";
+export { ResponseCache, ResponseCacheMissError } from "./cache.js";
+export type { ResponseCacheMode, ResponseCacheOptions } from "./cache.js";
+export type { GenerateEvent, ModelRequest } from "./generate.js";
+export type { RefFn, RefOptions } from "./relations.js";
+export type { ModelPricing, SynthesisBudget, TokenUsage, UsageReport } from "./usage.js";
+export { UniqueIndex } from "./unique.js";
+export { JobStore } from "./store.js";
+export { OMIT, when } from "./conditional.js";
+export type { ConditionalFn, FillValue } from "./conditional.js";
+export { DedupeIndex, normalizeText, textSimilarity } from "./dedupe.js";
+export type { DedupeAction, DedupeMode, DedupeOptions, DuplicateItem } from "./dedupe.js";
+export type { UniqueOptions } from "./unique.js";
+export { dateBetween, logNormal, normal, uniform, weighted } from "./distributions.js";
+export type {
+  CategoricalReport,
+  DateReport,
+  Distribution,
+  DistributionFn,
+  DistributionReport,
+  NumericReport,
+  Weights,
+} from "./distributions.js";
+export type { Checkpoint, CheckpointBatch } from "./checkpoint.js";
+export { registerOutputWriter } from "./writers.js";
+export type { OutputWriter, OutputWriterFactory, OutputWriterOptions } from "./writers.js";
+export { sqliteSink } from "./sinks.js";
+export type { Sink, SinkContext, SqliteDatabase, SqliteSinkOptions } from "./sinks.js";
+export { DefinitionError, defineTypeFromDocument, loadTypeDefinition } from "./definitions.js";
+export type {
+  DefinitionIssue,
+  FillValueDocument,
+  StageDocument,
+  TypeDocument,
+} from "./definitions.js";
@@ -0,0 +1,117 @@
+import { buildSyntheticDataRequest, type GenerateSyntheticDataInput } from "./generate.js";
+import { createRandom, hashString } from "./random.js";
+
+/**
+ * Options for the deterministic mock model.
+ */
+export interface MockModelOptions {
+  /** Seed mixed into every generated value (default: 0) */
+  seed?: number;
+}
+
+/**
+ * Generate schema-conforming fake data without calling a model. Output is derived only from the
+ * input (seed data, hints, fields and schema), so identical inputs always produce identical
+ * output regardless of timing or concurrency.
+ */
+export function mockSyntheticData(
+  input: GenerateSyntheticDataInput,
+  options: MockModelOptions = {},
+): Record<string, any>[] {
+  const { jsonSchema } = buildSyntheticDataRequest(input);
+  const itemSchema = jsonSchema.items ?? {};
+  const count = input.data?.length || input.count || 10;
+  // Offset by existing data so that unique generations continue the sequence instead of repeating
+  const offset = input.existingData?.length ?? 0;
+
+  return Array.from({ length: count }, (_, i) => {
+    const seedItem = input.data?.[i] ?? {};
+    const index = offset + i;
+    const random = createRandom(hashString(JSON.stringify([options.seed ?? 0, index, seedItem])));
+
+    const result: Record<string, any> = {};
+    for (const [key, propertySchema] of Object.entries<any>(itemSchema.properties ?? {})) {
+      // Like the model, only generate fields that aren't already supplied unless explicitly requested
+      if (key === "__hints" || (!input.fields && key in seedItem)) continue;
+      result[key] = mockValue(propertySchema ?? {}, key, index, random);
+    }
+    return result;
+  });
+}
+
+function mockValue(schema: any, name: string, index: number, random: () => number): any {
+  if ("const" in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length) {
+    return schema.enum[Math.floor(random() * schema.enum.length)];
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants) && variants.length) {
+    const variant = variants.find((v: any) => v.type !== "null") ?? variants[0];
+    return mockValue(variant, name, index, random);
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length) {
+    return mockValue(Object.assign({}, ...schema.allOf), name, index, random);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? (schema.type.find((t: string) => t !== "null") ?? "null")
+    : schema.type;
+
+  switch (type) {
+    case "string":
+      return mockString(schema, name, index, random);
+    case "integer":
+    case "number": {
+      const min = schema.minimum ?? schema.exclusiveMinimum ?? 0;
+      const max = schema.maximum ?? schema.exclusiveMaximum ?? min + 1000;
+      const value = min + random() * (max - min);
+      return type === "integer" ? Math.floor(value) : Math.round(value * 100) / 100;
+    }
+    case "boolean":
+      return random() < 0.5;
+    case "array": {
+      const minItems = schema.minItems ?? 1;
+      const maxItems = Math.max(minItems, schema.maxItems ?? minItems + 2);
+      const length = minItems + Math.floor(random() * (maxItems - minItems + 1));
+      return Array.from({ length }, () => mockValue(schema.items ?? {}, name, index, random));
+    }
+    case "object": {
+      const result: Record<string, any> = {};
+      for (const [key, propertySchema] of Object.entries<any>(schema.properties ?? {})) {
+        result[key] = mockValue(propertySchema ?? {}, key, index, random);
+      }
+      return result;
+    }
+    case "null":
+      return null;
+    default:
+      return mockString(schema, name, index, random);
+  }
+}
+
+function mockString(schema: any, name: string, index: number, random: () => number): string {
+  const suffix = Math.floor(random() * 0xffffff)
+    .toString(16)
+    .padStart(6, "0");
+
+  switch (schema.format) {
+    case "date-time":
+    case "date": {
+      // Dates between 1970 and 2030
+      const iso = new Date(Math.floor(random() * 1893456000) * 1000).toISOString();
+      return schema.format === "date" ? iso.substring(0, 10) : iso;
+    }
+    case "email":
+      return `${name.toLowerCase()}${index + 1}.${suffix}@example.com`;
+    case "uri":
+    case "url":
+      return `https://example.com/${name}/${index + 1}-${suffix}`;
+    case "uuid": {
+      const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16)).join("");
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20)}`;
+    }
+  }
+
+  const value = `${name} ${index + 1} ${suffix}`;
+  return schema.maxLength ? value.substring(0, schema.maxLength) : value;
+}
@@ -0,0 +1,34 @@
+/**
+ * Hash a string to an unsigned 32-bit integer (FNV-1a). Useful for deriving stable seeds from
+ * arbitrary data.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic pseudo-random number generator (mulberry32) from a numeric seed.
+ * The returned function produces floats in the range [0, 1), like Math.random.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a stable 32-bit seed from a list of parts, e.g. a job seed, batch number and stage index.
+ */
+export function deriveSeed(...parts: Array<string | number | undefined>): number {
+  return hashString(JSON.stringify(parts));
+}
@@ -0,0 +1,163 @@
+import type { StageContext, SynthesizeOptions, TypeDefinition } from "./genthetic.js";
+import { conditionalBranches } from "./conditional.js";
+import { createRandom, deriveSeed } from "./random.js";
+
+/**
+ * Options for picking a related record with `ref()` or `belongsTo()`.
+ */
+export interface RefOptions<P> {
+  /** Return this field of the related record instead of the whole record */
+  field?: keyof P & string;
+
+  /** Weight function for weighted random picks. Records with higher weights are picked more often. */
+  weight?: (record: P) => number;
+
+  /**
+   * Number of items that reference each related record. Items are assigned so that every related
+   * record is referenced between `min` and `max` times (exactly `n` times when a number is given).
+   */
+  cardinality?: number | { min?: number; max?: number };
+}
+
+const REF_TARGET = Symbol("genthetic.ref");
+
+/**
+ * A fill function that resolves to a record (or field) of another type's results.
+ */
+export type RefFn<P extends object = any> = ((item: any, context: StageContext<any>) => any) & {
+  [REF_TARGET]: TypeDefinition<P>;
+};
+
+/**
+ * Get the type referenced by a fill value, if it was created with `ref()` or `belongsTo()`.
+ */
+export function refTarget(value: unknown): TypeDefinition<any> | undefined {
+  return typeof value === "function" ? (value as Partial<RefFn>)[REF_TARGET] : undefined;
+}
+
+/**
+ * Find all types referenced by `ref()` or `belongsTo()` helpers in a fill shape.
+ */
+export function collectRefs(shape: unknown, refs = new Set<TypeDefinition<any>>()) {
+  const target = refTarget(shape);
+  const branches = conditionalBranches(shape);
+  if (target) {
+    refs.add(target);
+  } else if (branches) {
+    for (const branch of branches) collectRefs(branch, refs);
+  } else if (shape !== null && typeof shape === "object") {
+    for (const value of Object.values(shape)) collectRefs(value, refs);
+  }
+  return refs;
+}
+
+/**
+ * Get the completed results of a referenced type from the job's references.
+ */
+function referencedResults<P>(type: TypeDefinition<any>, options: SynthesizeOptions): P[] {
+  const results = options.references?.get(type);
+  if (!results) {
+    throw new Error(
+      `Cannot resolve reference to "${type.name}": its results are not available. Use synthesizeAll() or pass them in the "references" option.`,
+    );
+  }
+  if (!results.length) {
+    throw new Error(`Cannot resolve reference to "${type.name}": it has no results.`);
+  }
+  return results as P[];
+}
+
+/**
+ * Plan how many items reference each record so that every record's count is within the
+ * cardinality bounds and the counts add up to the total number of items.
+ */
+function planCardinality(
+  type: TypeDefinition<any>,
+  records: number,
+  count: number,
+  cardinality: number | { min?: number; max?: number },
+  random: () => number,
+): number[] {
+  const min = typeof cardinality === "number" ? cardinality : (cardinality.min ?? 0);
+  const max = typeof cardinality === "number" ? cardinality : (cardinality.max ?? Infinity);
+  if (count < records * min || count > records * max) {
+    throw new Error(
+      `Cannot reference ${records} "${type.name}" records between ${min} and ${max} times each with ${count} items.`,
+    );
+  }
+
+  const counts = Array(records).fill(min);
+  let remaining = count - records * min;
+  while (remaining > 0) {
+    const open = counts.flatMap((n, i) => (n < max ? [i] : []));
+    counts[open[Math.floor(random() * open.length)]]++;
+    remaining--;
+  }
+  return counts.flatMap((n, i) => Array(n).fill(i));
+}
+
+function pickWeighted<P>(records: P[], weight: (record: P) => number, random: () => number): P {
+  const weights = records.map((record) => Math.max(0, weight(record)));
+  let target = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < records.length; i++) {
+    target -= weights[i];
+    if (target < 0) return records[i];
+  }
+  return records[records.length - 1];
+}
+
+/**
+ * Create a fill function that picks a record from the completed results of another type. Using
+ * a ref in `.fill()` makes the type depend on the referenced type in `synthesizeAll()`.
+ *
+ * @param type The referenced type definition
+ * @param options How to pick records and which field to return
+ */
+export function ref<P extends object>(
+  type: TypeDefinition<P>,
+  options: RefOptions<P> = {},
+): RefFn<P> {
+  // Cardinality plans are tracked per job so a ref can be reused across synthesis runs
+  const plans = new WeakMap<SynthesizeOptions, number[]>();
+
+  const fn = (_item: any, context: StageContext<any>) => {
+    const records = referencedResults<P>(type, context.options);
+
+    let record: P;
+    if (options.cardinality !== undefined) {
+      if (context.globalIndex === undefined) {
+        throw new TypeError(`ref() to "${type.name}" with a cardinality must be used in .fill()`);
+      }
+      let plan = plans.get(context.options);
+      if (!plan) {
+        // Plan with a generator derived from the job's seed so the plan doesn't depend on which
+        // batch resolves the ref first
+        const random = createRandom(deriveSeed(context.options.seed ?? context.seed, type.name));
+        plan = planCardinality(type, records.length, context.count, options.cardinality, random);
+        plans.set(context.options, plan);
+      }
+      // Assign by the item's index, so that the record doesn't depend on the order in which
+      // batches run, and retried stages get the same record
+      record = records[plan[context.globalIndex % plan.length]];
+    } else if (options.weight) {
+      record = pickWeighted(records, options.weight, context.random);
+    } else {
+      record = records[Math.floor(context.random() * records.length)];
+    }
+
+    return options.field ? record[options.field] : record;
+  };
+
+  return Object.assign(fn, { [REF_TARGET]: type });
+}
+
+/**
+ * Create a fill function that resolves to a foreign key of another type's record. Shorthand for
+ * `ref(type, { field: "id", ...options })`.
+ */
+export function belongsTo<P extends object>(
+  type: TypeDefinition<P>,
+  options: RefOptions<P> = {},
+): RefFn<P> {
+  return ref(type, { field: "id" as keyof P & string, ...options });
+}
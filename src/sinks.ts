@@ -0,0 +1,189 @@
+import { appendFileSync, writeFileSync } from "node:fs";
+import type { TypeDefinition } from "./genthetic.js";
+import type { OutputWriter } from "./writers.js";
+
+export interface SinkContext {
+  /** The type being synthesized */
+  type: TypeDefinition<any>;
+
+  /** JSON schema of the type, if it has one */
+  jsonSchema?: Record<string, any> | null;
+}
+
+/**
+ * A destination for synthesized records, such as a database. Each job opens the sink to get a
+ * writer that receives completed batches in order, so one sink can be shared by several types.
+ */
+export interface Sink {
+  open(context: SinkContext): OutputWriter | Promise<OutputWriter>;
+}
+
+/**
+ * The subset of a SQLite database handle used by `sqliteSink()`. Satisfied by better-sqlite3's
+ * `Database` and Node's `DatabaseSync` from `node:sqlite`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): { run(...params: any[]): unknown };
+}
+
+export interface SqliteSinkOptions {
+  /** Database to insert records into. Optional when only writing a seed file. */
+  database?: SqliteDatabase;
+
+  /** Write a `.sql` seed file with the CREATE TABLE and INSERT statements for all records */
+  seedFile?: string;
+
+  /** Table name (default: the type's name) */
+  table?: string | ((type: TypeDefinition<any>) => string);
+
+  /** Drop existing tables before creating them (default: false) */
+  replace?: boolean;
+}
+
+interface Column {
+  name: string;
+  type: "TEXT" | "INTEGER" | "REAL";
+  required: boolean;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function columnType(property: Record<string, any> | undefined): Column["type"] {
+  const types = [property?.type].flat().filter((type) => type && type !== "null");
+  switch (types[0]) {
+    case "integer":
+    case "boolean":
+      return "INTEGER";
+    case "number":
+      return "REAL";
+    default:
+      return "TEXT";
+  }
+}
+
+/**
+ * Derive table columns from the top-level properties of a JSON schema, falling back to the
+ * fields of the first batch when the type has no schema.
+ */
+function tableColumns(jsonSchema: SinkContext["jsonSchema"], items: any[]): Column[] {
+  if (jsonSchema?.type === "object" && jsonSchema.properties) {
+    const required = new Set<string>(jsonSchema.required ?? []);
+    return Object.entries(jsonSchema.properties).map(([name, property]: [string, any]) => ({
+      name,
+      type: columnType(property),
+      required: required.has(name),
+    }));
+  }
+
+  const names = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  return names.map((name) => {
+    const value = items.find((item) => item[name] != null)?.[name];
+    const type =
+      typeof value === "boolean" || Number.isInteger(value)
+        ? "INTEGER"
+        : typeof value === "number"
+          ? "REAL"
+          : "TEXT";
+    return { name, type, required: false };
+  });
+}
+
+/**
+ * Convert a record value to a SQLite parameter. Booleans become 0/1 and objects are stored as JSON.
+ */
+function sqliteValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function sqlLiteral(value: unknown): string {
+  const converted = sqliteValue(value);
+  if (converted === null) return "NULL";
+  if (typeof converted === "number") return String(converted);
+  return `'${converted.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Create a sink that inserts each completed batch into a SQLite table derived from the type's
+ * JSON schema, in a transaction per batch, and optionally writes the same records to a `.sql`
+ * seed file. Types sharing the sink get their own tables in the same database and seed file.
+ *
+ * @example
+ * const db = new Database("fixtures.db"); // better-sqlite3
+ * UserType.synthesize({ count: 100, sink: sqliteSink({ database: db, seedFile: "seed.sql" }) });
+ */
+export function sqliteSink(options: SqliteSinkOptions): Sink {
+  if (!options.database && !options.seedFile) {
+    throw new Error('sqliteSink() requires a "database", a "seedFile" or both');
+  }
+
+  // The seed file is started by the first job and appended to by later ones
+  let seedFileStarted = false;
+
+  return {
+    open({ type, jsonSchema }) {
+      const table = quoteIdentifier(
+        typeof options.table === "function" ? options.table(type) : (options.table ?? type.name),
+      );
+      if (options.seedFile && !seedFileStarted) {
+        writeFileSync(options.seedFile, "");
+        seedFileStarted = true;
+      }
+
+      let insert: { sql: string; columns: Column[] } | undefined;
+
+      const createTable = (items: any[]) => {
+        const columns = tableColumns(jsonSchema, items);
+        const statements = [
+          ...(options.replace ? [`DROP TABLE IF EXISTS ${table};`] : []),
+          `CREATE TABLE IF NOT EXISTS ${table} (${columns
+            .map((c) => `${quoteIdentifier(c.name)} ${c.type}${c.required ? " NOT NULL" : ""}`)
+            .join(", ")});`,
+        ].join("\n");
+        options.database?.exec(statements);
+        if (options.seedFile) appendFileSync(options.seedFile, `${statements}\n`);
+
+        const names = columns.map((c) => quoteIdentifier(c.name)).join(", ");
+        return { sql: `INSERT INTO ${table} (${names}) VALUES`, columns };
+      };
+
+      return {
+        write(items) {
+          if (!items.length) return;
+          insert ??= createTable(items);
+          const { sql, columns } = insert;
+
+          if (options.database) {
+            const statement = options.database.prepare(
+              `${sql} (${columns.map(() => "?").join(", ")})`,
+            );
+            options.database.exec("BEGIN");
+            try {
+              for (const item of items) {
+                statement.run(...columns.map((c) => sqliteValue(item[c.name])));
+              }
+              options.database.exec("COMMIT");
+            } catch (error) {
+              options.database.exec("ROLLBACK");
+              throw error;
+            }
+          }
+
+          if (options.seedFile) {
+            const rows = items.map(
+              (item) => `${sql} (${columns.map((c) => sqlLiteral(item[c.name])).join(", ")});\n`,
+            );
+            appendFileSync(options.seedFile, rows.join(""));
+          }
+        },
+        close() {},
+      };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Mutable state shared by all of a job's batches, for counters and other cross-item state in
+ * fill and stage functions. Batches run concurrently, so read and write a value in a single
+ * `update()` or `increment()` call rather than across an `await`, where another batch may change
+ * it in between.
+ */
+export class JobStore extends Map<string, any> {
+  /**
+   * Replace a value with the result of `fn`, which receives the current value (or `initial` if
+   * unset). Returns the new value.
+   */
+  update<V>(key: string, fn: (value: V) => V, initial?: V): V {
+    const value = fn(this.has(key) ? this.get(key) : initial);
+    this.set(key, value);
+    return value;
+  }
+
+  /** Add `by` (default: 1) to a counter, starting from 0. Returns the new count. */
+  increment(key: string, by = 1): number {
+    return this.update<number>(key, (count) => count + by, 0);
+  }
+}
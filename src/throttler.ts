@@ -1,6 +1,117 @@
+import { ResponseCacheMissError } from "./cache.js";
+
+// A token bucket holding up to a minute's worth of capacity, refilled continuously
+interface TokenBucket {
+  capacity: number;
+  available: number;
+  perMs: number;
+  updatedAt: number;
+}
+
+function createBucket(perMinute: number): TokenBucket {
+  return {
+    capacity: perMinute,
+    available: perMinute,
+    perMs: perMinute / 60_000,
+    updatedAt: Date.now()
+  };
+}
+
+function refill(bucket: TokenBucket, now: number): void {
+  bucket.available = Math.min(
+    bucket.capacity,
+    bucket.available + (now - bucket.updatedAt) * bucket.perMs
+  );
+  bucket.updatedAt = now;
+}
+
+/**
+ * Get how long to wait before retrying a failed request from the rate limit information in an
+ * error (or its causes): a `Retry-After` header, a `RetryInfo` detail as returned by Google APIs,
+ * or a "retry in 30s" message. Returns undefined if the error doesn't say.
+ */
+export function retryAfterMs(error: any): number | undefined {
+  for (let current = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+    if (typeof current.retryAfterMs === "number") return current.retryAfterMs;
+
+    const headers = current.headers ?? current.response?.headers;
+    const header =
+      typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"];
+    if (header != null) {
+      const seconds = Number(header);
+      if (!Number.isNaN(seconds)) return seconds * 1000;
+      const date = Date.parse(header);
+      if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const details = current.errorDetails ?? current.details ?? current.detail?.details;
+    if (Array.isArray(details)) {
+      for (const detail of details) {
+        const delay = /^([\d.]+)s$/.exec(detail?.retryDelay ?? "");
+        if (delay) return Number(delay[1]) * 1000;
+      }
+    }
+
+    const message = /retry (?:in|after) ([\d.]+)\s*(ms|s)\b/i.exec(String(current.message ?? ""));
+    if (message) return Number(message[1]) * (message[2].toLowerCase() === "ms" ? 1 : 1000);
+  }
+  return undefined;
+}
+
+// Statuses of requests rejected by rate limits or quotas
+const RATE_LIMIT_STATUSES: unknown[] = [429, "429", "RESOURCE_EXHAUSTED"];
+
+/**
+ * Check whether an error (or one of its causes) is a rate limit or quota error: an HTTP 429 or a
+ * `RESOURCE_EXHAUSTED` status. Only status fields are checked, since messages can mention these
+ * words for other reasons.
+ */
+export function isRateLimitError(error: any): boolean {
+  for (let current = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+    const statuses = [current.status, current.statusCode, current.code, current.response?.status];
+    if (statuses.some((status) => RATE_LIMIT_STATUSES.includes(status))) return true;
+  }
+  return false;
+}
+
+// Genkit statuses for requests that fail the same way however often they're retried
+const PERMANENT_STATUSES = [
+  "INVALID_ARGUMENT",
+  "NOT_FOUND",
+  "PERMISSION_DENIED",
+  "UNAUTHENTICATED",
+  "UNIMPLEMENTED"
+];
+
+/**
+ * Check whether an error is worth retrying. Errors that would fail again are not: bugs in user
+ * code (`TypeError`, `ReferenceError`, `SyntaxError`, `RangeError`), Zod schema errors, and
+ * invalid or unauthorized requests, including model output that fails schema validation, and
+ * response cache misses in replay mode. Network failures, timeouts, rate limits and other errors
+ * are retried.
+ */
+export function isRetryableError(error: any): boolean {
+  if (isRateLimitError(error)) return true;
+  // Failed fetches are network errors, despite being TypeErrors
+  if (error instanceof TypeError && /fetch failed/i.test(error.message)) return true;
+  if (
+    error instanceof TypeError ||
+    error instanceof ReferenceError ||
+    error instanceof SyntaxError ||
+    error instanceof RangeError
+  ) {
+    return false;
+  }
+  if (error?.name === "ZodError") return false;
+  if (error instanceof ResponseCacheMissError) return false;
+  if (PERMANENT_STATUSES.includes(error?.status)) return false;
+  return true;
+}
+
 /**
  * Throttler class that manages concurrency for asynchronous operations
- * with built-in retry logic using exponential backoff.
+ * with built-in retry logic using exponential backoff. Optionally limits
+ * the rate of tasks by requests and tokens per minute.
  */
 export class Throttler {
   private queue: Array<{
@@ -8,10 +119,21 @@ export class Throttler {
     resolve: (value: any) => void;
     reject: (reason?: any) => void;
     retries: number;
+    tokens: number;
+    signal?: AbortSignal;
   }> = [];
 
   private runningTasks = 0;
 
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+
+  // No tasks start before this time, set when an error says when to retry
+  private pausedUntil = 0;
+
+  // Timer that restarts queue processing once the rate limits allow
+  private timer?: ReturnType<typeof setTimeout>;
+
   /**
    * Create a new Throttler instance
    *
@@ -38,12 +160,49 @@ export class Throttler {
        * Enable debug logging (default: false)
        */
       debug?: boolean;
+
+      /**
+       * When aborted, queued tasks are rejected and failed tasks are no longer retried
+       */
+      signal?: AbortSignal;
+
+      /**
+       * Maximum number of tasks started per minute (default: unlimited)
+       */
+      requestsPerMinute?: number;
+
+      /**
+       * Maximum number of tokens used per minute (default: unlimited). Tasks declare the tokens
+       * they expect to use when run, and can correct the estimate with consumeTokens()
+       */
+      tokensPerMinute?: number;
+
+      /**
+       * Decides whether a failed task is retried (default: all errors are retried)
+       */
+      retryable?: (error: unknown) => boolean;
     } = {}
   ) {
     this.options.concurrency = options.concurrency ?? 5;
     this.options.maxRetries = options.maxRetries ?? 3;
     this.options.baseRetryDelayMs = options.baseRetryDelayMs ?? 200;
     this.options.debug = options.debug ?? false;
+
+    if (options.requestsPerMinute) this.requestBucket = createBucket(options.requestsPerMinute);
+    if (options.tokensPerMinute) this.tokenBucket = createBucket(options.tokensPerMinute);
+
+    // Reject everything still waiting in the queue when aborted
+    options.signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(this.timer);
+        const queued = this.queue.splice(0);
+        for (const task of queued) {
+          task.reject(options.signal?.reason);
+        }
+      },
+      { once: true }
+    );
   }
 
   /**
@@ -52,17 +211,50 @@ export class Throttler {
    * up to maxRetries times.
    *
    * @param fn Function that returns a promise to execute
+   * @param options.tokens Tokens the task is expected to use, counted against tokensPerMinute
+   * @param options.signal Rejects the task if aborted while it's queued, and stops retries
    * @returns Promise that resolves with the result of fn or rejects if max retries are exceeded
    */
-  run<T>(fn: () => Promise<T>): Promise<T> {
+  run<T>(
+    fn: () => Promise<T>,
+    options: { tokens?: number; signal?: AbortSignal } = {}
+  ): Promise<T> {
     return new Promise<T>((resolve, reject) => {
-      // Add the task to the queue
-      this.queue.push({
+      const { signal } = options;
+
+      // Don't accept new tasks once aborted
+      if (this.options.signal?.aborted || signal?.aborted) {
+        reject(this.options.signal?.aborted ? this.options.signal.reason : signal?.reason);
+        return;
+      }
+
+      // Remove the task from the queue if its own signal is aborted while it waits
+      const onAbort = () => {
+        const index = this.queue.indexOf(task);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const task = {
         fn,
-        resolve,
-        reject,
+        resolve: (value: T) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        reject: (reason?: any) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
         retries: 0,
-      });
+        tokens: options.tokens ?? 0,
+        signal
+      };
+
+      // Add the task to the queue
+      this.queue.push(task);
 
       // Process the queue
       this.processQueue();
@@ -83,6 +275,16 @@ export class Throttler {
       return;
     }
 
+    // Wait until the rate limits allow the next task to start
+    const wait = this.rateLimitDelay(this.queue[0].tokens);
+    if (wait > 0) {
+      this.timer ??= setTimeout(() => {
+        this.timer = undefined;
+        this.processQueue();
+      }, wait);
+      return;
+    }
+
     // Get the next task
     const task = this.queue.shift();
     if (!task) {
@@ -91,6 +293,8 @@ export class Throttler {
 
     // Increment counters
     this.runningTasks++;
+    if (this.requestBucket) this.requestBucket.available--;
+    if (this.tokenBucket) this.tokenBucket.available -= task.tokens;
 
     // Execute the task
     const executeTask = () => {
@@ -110,6 +314,20 @@ export class Throttler {
           // Decrement running tasks counter
           this.runningTasks--;
 
+          // Don't retry once aborted
+          if (this.options.signal?.aborted || task.signal?.aborted) {
+            task.reject(error);
+            setTimeout(() => this.processQueue(), 0);
+            return;
+          }
+
+          // Errors that can't be retried are passed on as they are
+          if (this.options.retryable && !this.options.retryable(error)) {
+            task.reject(error);
+            setTimeout(() => this.processQueue(), 0);
+            return;
+          }
+
           // Check if we should retry
           if (task.retries < (this.options.maxRetries ?? 3)) {
             // Increment retry counter
@@ -124,7 +342,15 @@ export class Throttler {
             const jitter = 0.15;
             const minDelay = backoffDelay * (1 - jitter);
             const maxDelay = backoffDelay * (1 + jitter);
-            const actualDelay = minDelay + Math.random() * (maxDelay - minDelay);
+            let actualDelay = minDelay + Math.random() * (maxDelay - minDelay);
+
+            // When the error says when to retry, wait that long and hold back every other task
+            // too, since they most likely share the exhausted quota
+            const retryAfter = retryAfterMs(error);
+            if (retryAfter !== undefined) {
+              actualDelay = retryAfter;
+              this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter);
+            }
 
             // Debug logging is optional, but always log in the console during testing
             if (this.options.debug) {
@@ -138,18 +364,24 @@ export class Throttler {
 
             // Schedule retry after backoff delay
             setTimeout(() => {
-              // Add back to the front of the queue
-              this.queue.unshift({
-                ...task,
-                retries: task.retries,
-              });
+              if (this.options.signal?.aborted || task.signal?.aborted) {
+                task.reject(
+                  this.options.signal?.aborted ? this.options.signal.reason : task.signal?.reason
+                );
+                return;
+              }
+
+              // Add the same task back to the front of the queue, so that aborting its signal
+              // still removes it
+              this.queue.unshift(task);
               this.processQueue();
             }, actualDelay);
           } else {
             // Max retries exceeded, reject the promise
             task.reject(
               new Error(
-                `Max retries (${this.options.maxRetries ?? 3}) exceeded: ${error.message || error}`
+                `Max retries (${this.options.maxRetries ?? 3}) exceeded: ${error.message || error}`,
+                { cause: error }
               )
             );
 
@@ -172,6 +404,46 @@ export class Throttler {
     }
   }
 
+  /**
+   * Get how long to wait, in milliseconds, before a task using the given number of tokens can
+   * start without exceeding the rate limits
+   */
+  private rateLimitDelay(tokens: number): number {
+    const now = Date.now();
+    let wait = this.pausedUntil - now;
+
+    if (this.requestBucket) {
+      refill(this.requestBucket, now);
+      if (this.requestBucket.available < 1) {
+        wait = Math.max(wait, (1 - this.requestBucket.available) / this.requestBucket.perMs);
+      }
+    }
+
+    if (this.tokenBucket) {
+      refill(this.tokenBucket, now);
+      // Tasks larger than the whole bucket start once it's full
+      const needed = Math.min(tokens, this.tokenBucket.capacity);
+      if (this.tokenBucket.available < needed) {
+        wait = Math.max(wait, (needed - this.tokenBucket.available) / this.tokenBucket.perMs);
+      }
+    }
+
+    return Math.ceil(wait);
+  }
+
+  /**
+   * Count tokens against the tokens-per-minute limit, e.g. the difference between a task's
+   * estimated and actual usage once it completes. Negative values return unused tokens.
+   */
+  consumeTokens(tokens: number): void {
+    if (!this.tokenBucket) return;
+    refill(this.tokenBucket, Date.now());
+    this.tokenBucket.available = Math.min(
+      this.tokenBucket.capacity,
+      this.tokenBucket.available - tokens
+    );
+  }
+
   /**
    * Get the current queue length
    */
@@ -190,6 +462,7 @@ export class Throttler {
    * Dispose of the throttler, clearing any internal state
    */
   dispose(): void {
-    // Nothing to dispose without rate limiting timers
+    clearTimeout(this.timer);
+    this.timer = undefined;
   }
 }
@@ -0,0 +1,104 @@
+/**
+ * Options for keeping generated items unique without running batches one at a time.
+ */
+export interface UniqueOptions {
+  /** Fields whose values together identify an item. Items with the same values collide. */
+  keys: string[];
+
+  /** Maximum number of earlier values shown to the model as examples to avoid (default: 50) */
+  sampleSize?: number;
+
+  /** Times colliding items are regenerated before the stage fails (default: 3) */
+  maxRegenerations?: number;
+}
+
+/**
+ * Normalize a key value so that values differing only in case or whitespace collide.
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim().replace(/\s+/g, " ").toLowerCase();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Set of the key values claimed by a job's items, shared by all of its batches. Values are
+ * compared ignoring case and surrounding or repeated whitespace.
+ */
+export class UniqueIndex {
+  // Claimed values by id, with the number of the batch that claimed them, if any
+  private readonly claimed = new Map<
+    string,
+    { values: Record<string, unknown>; batchNumber?: number }
+  >();
+
+  constructor(readonly keys: string[]) {}
+
+  /** Number of claimed values */
+  get size(): number {
+    return this.claimed.size;
+  }
+
+  /** The item's key values, e.g. `{ title: "Heat" }` for the key `title` */
+  values(item: Record<string, any>): Record<string, unknown> {
+    return Object.fromEntries(this.keys.map((key) => [key, item[key]]));
+  }
+
+  private id(item: Record<string, any>): string {
+    return JSON.stringify(this.keys.map((key) => normalize(item[key]) ?? null));
+  }
+
+  /** Whether the item's key values have been claimed */
+  has(item: Record<string, any>): boolean {
+    return this.claimed.has(this.id(item));
+  }
+
+  /**
+   * Claim the item's key values, for the batch numbered `batchNumber` if given. Returns false if
+   * they were already claimed.
+   */
+  claim(item: Record<string, any>, batchNumber?: number): boolean {
+    const id = this.id(item);
+    if (this.claimed.has(id)) return false;
+    this.claimed.set(id, { values: this.values(item), batchNumber });
+    return true;
+  }
+
+  /** Release values claimed for an item, e.g. when its batch is regenerated */
+  release(item: Record<string, any>): void {
+    this.claimed.delete(this.id(item));
+  }
+
+  /**
+   * Release the values claimed for a batch, except those of the `kept` items, e.g. when the batch
+   * fails or items are dropped before it's output
+   */
+  releaseBatch(batchNumber: number, kept: Record<string, any>[] = []): void {
+    const keptIds = new Set(kept.map((item) => this.id(item)));
+    for (const [id, claim] of this.claimed) {
+      if (claim.batchNumber === batchNumber && !keptIds.has(id)) this.claimed.delete(id);
+    }
+  }
+
+  /**
+   * Pick up to `size` claimed values at random, to show the model examples of values to avoid
+   */
+  sample(size: number, random: () => number): Record<string, unknown>[] {
+    const values = [...this.claimed.values()].map((claim) => claim.values);
+    if (values.length <= size) return values;
+
+    // Partial Fisher-Yates shuffle
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(random() * (values.length - i));
+      [values[i], values[j]] = [values[j], values[i]];
+    }
+    return values.slice(0, size);
+  }
+}
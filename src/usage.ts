@@ -0,0 +1,81 @@
+/**
+ * Token usage of a set of model calls.
+ */
+export interface TokenUsage {
+  /** Number of model calls. Responses served from the cache aren't counted. */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Total time spent waiting for model responses, in milliseconds */
+  latencyMs: number;
+  /** Estimated cost, set when the job has a pricing table */
+  cost?: number;
+}
+
+/**
+ * Price of a model's tokens, per million tokens (in any currency, as long as budgets use the same).
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Token usage of a synthesis job, broken down by stage, batch and model.
+ */
+export interface UsageReport {
+  total: TokenUsage;
+  /** Usage of each stage, indexed like the type's stages */
+  byStage: TokenUsage[];
+  /** Usage of repair requests made by the `validate` option */
+  validation: TokenUsage;
+  /** Usage of each batch, indexed by batch number. Batches restored from a checkpoint are empty. */
+  byBatch: TokenUsage[];
+  /** Usage of each model, by model name */
+  byModel: Record<string, TokenUsage>;
+  /** Whether the job stopped starting batches because it reached its `budget` */
+  budgetExceeded: boolean;
+}
+
+/**
+ * Limits on the tokens or estimated cost of a synthesis job.
+ */
+export interface SynthesisBudget {
+  /** Maximum number of input and output tokens */
+  maxTokens?: number;
+  /** Maximum estimated cost, according to the job's pricing table */
+  maxCost?: number;
+}
+
+/**
+ * Create an empty usage record, with a zero cost when costs are being estimated.
+ */
+export function emptyUsage(withCost = false): TokenUsage {
+  const usage: TokenUsage = { requests: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+  if (withCost) usage.cost = 0;
+  return usage;
+}
+
+/**
+ * Find the pricing for a model, matching either the full model name or the name without its
+ * provider prefix (e.g. "gemini-2.5-flash" matches "googleai/gemini-2.5-flash").
+ */
+export function findPricing(
+  pricing: Record<string, ModelPricing> | undefined,
+  model: string,
+): ModelPricing | undefined {
+  return pricing?.[model] ?? pricing?.[model.substring(model.indexOf("/") + 1)];
+}
+
+/**
+ * Add a model call's usage to each of the given usage records.
+ */
+export function addUsage(call: Omit<TokenUsage, "requests">, ...targets: TokenUsage[]): void {
+  for (const target of targets) {
+    target.requests++;
+    target.inputTokens += call.inputTokens;
+    target.outputTokens += call.outputTokens;
+    target.latencyMs += call.latencyMs;
+    if (target.cost !== undefined) target.cost += call.cost ?? 0;
+  }
+}
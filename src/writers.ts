@@ -0,0 +1,153 @@
+import { appendFileSync, renameSync, writeFileSync } from "node:fs";
+import { gzipSync } from "node:zlib";
+
+/**
+ * Writes synthesized items to an output file as batches complete.
+ */
+export interface OutputWriter {
+  /** Write the items of a completed batch. Called once per batch, in batch order. */
+  write(items: any[]): void | Promise<void>;
+
+  /** Finish writing. Called when the job completes, fails or is cancelled. */
+  close(): void | Promise<void>;
+}
+
+export interface OutputWriterOptions {
+  /** The output file */
+  file: string;
+
+  /** JSON schema of the synthesized type, if it has one */
+  jsonSchema?: Record<string, any>;
+}
+
+export type OutputWriterFactory = (options: OutputWriterOptions) => OutputWriter;
+
+/**
+ * Rewrites the whole file as a pretty-printed JSON array after every batch. Each write replaces
+ * the file atomically, so readers always see a complete array.
+ */
+function jsonWriter({ file }: OutputWriterOptions): OutputWriter {
+  const items: any[] = [];
+  return {
+    write(batch) {
+      items.push(...batch);
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      writeFileSync(tmpFile, JSON.stringify(items, null, 2), { encoding: "utf8" });
+      renameSync(tmpFile, file);
+    },
+    close() {},
+  };
+}
+
+/**
+ * Create a writer that appends encoded batches to `<file>.partial` and moves it into place when
+ * closed, so the output file isn't replaced until the job stops. Jobs that fail or are cancelled
+ * close their writers too, leaving the batches written before they stopped.
+ */
+function appendingWriter(file: string, encode: (items: any[]) => string | Buffer): OutputWriter {
+  const partialFile = `${file}.partial`;
+  writeFileSync(partialFile, "");
+  return {
+    write(items) {
+      if (items.length) appendFileSync(partialFile, encode(items));
+    },
+    close() {
+      renameSync(partialFile, file);
+    },
+  };
+}
+
+function toJsonLines(items: any[]): string {
+  return items.map((item) => `${JSON.stringify(item)}\n`).join("");
+}
+
+/**
+ * Get the flattened column names of an object schema, e.g. `address.city` for nested objects.
+ */
+function schemaColumns(schema: Record<string, any> | undefined, prefix = ""): string[] {
+  if (schema?.type !== "object" || !schema.properties) return [];
+  return Object.entries(schema.properties).flatMap(([key, property]: [string, any]) => {
+    const nested = schemaColumns(property, `${prefix}${key}.`);
+    return nested.length ? nested : [`${prefix}${key}`];
+  });
+}
+
+/**
+ * Flatten nested objects into dot-separated keys. Arrays are kept as values.
+ */
+function flatten(value: Record<string, any>, prefix = "", row: Record<string, any> = {}) {
+  for (const [key, field] of Object.entries(value)) {
+    if (field !== null && typeof field === "object" && !Array.isArray(field)) {
+      flatten(field, `${prefix}${key}.`, row);
+    } else {
+      row[`${prefix}${key}`] = field;
+    }
+  }
+  return row;
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes CSV with nested fields flattened to dot-separated columns and arrays encoded as JSON.
+ * Columns come from the type's JSON schema, or from the first batch when the type has no schema.
+ */
+function csvWriter({ file, jsonSchema }: OutputWriterOptions): OutputWriter {
+  let columns: string[] | undefined;
+  return appendingWriter(file, (items) => {
+    const rows = items.map((item) => flatten(item));
+    let header = "";
+    if (!columns) {
+      columns = schemaColumns(jsonSchema);
+      if (!columns.length) columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+      header = `${columns.map(csvValue).join(",")}\n`;
+    }
+    return (
+      header + rows.map((row) => `${columns!.map((c) => csvValue(row[c])).join(",")}\n`).join("")
+    );
+  });
+}
+
+const writers = new Map<string, OutputWriterFactory>([
+  ["json", jsonWriter],
+  ["jsonl", ({ file }) => appendingWriter(file, toJsonLines)],
+  ["ndjson", ({ file }) => appendingWriter(file, toJsonLines)],
+  // Each batch is appended as its own gzip member, which gunzip reads as one stream
+  ["jsonl.gz", ({ file }) => appendingWriter(file, (items) => gzipSync(toJsonLines(items)))],
+  ["ndjson.gz", ({ file }) => appendingWriter(file, (items) => gzipSync(toJsonLines(items)))],
+  ["csv", csvWriter],
+]);
+
+/**
+ * Register a writer for an output format. Files ending in `.<format>` use the writer unless
+ * another format is given explicitly. Registering an existing format replaces its writer.
+ */
+export function registerOutputWriter(format: string, factory: OutputWriterFactory): void {
+  writers.set(format, factory);
+}
+
+/**
+ * Create a writer for an output file, using the given format or the one matching the file's
+ * extension (defaulting to JSON).
+ */
+export function createOutputWriter(options: OutputWriterOptions, format?: string): OutputWriter {
+  if (format !== undefined) {
+    const factory = writers.get(format);
+    if (!factory) {
+      throw new Error(
+        `Unknown output format "${format}". Available formats: ${[...writers.keys()].join(", ")}`,
+      );
+    }
+    return factory(options);
+  }
+
+  // Prefer the longest match so "data.jsonl.gz" uses "jsonl.gz" rather than a "gz" writer
+  const matches = [...writers.keys()]
+    .filter((name) => options.file.endsWith(`.${name}`))
+    .sort((a, b) => b.length - a.length);
+  return writers.get(matches[0] ?? "json")!(options);
+}
@@ -0,0 +1,137 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { genkit, z } from "genkit";
+import { Genthetic, StageError } from "../src/genthetic.js";
+import { ResponseCache, ResponseCacheMissError } from "../src/cache.js";
+
+describe("ResponseCache", () => {
+  let dir: string;
+  const request = {
+    model: "test/model",
+    messages: [{ role: "user" as const, content: [{ text: "hello" }] }],
+    jsonSchema: { type: "array" },
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should store and serve responses in auto mode", async () => {
+    const cache = new ResponseCache({ dir });
+    assert.strictEqual(await cache.read(request), undefined);
+
+    await cache.write(request, [{ a: 1 }]);
+    assert.deepStrictEqual(await cache.read(request), [{ a: 1 }]);
+    assert.strictEqual(readdirSync(dir).length, 1);
+  });
+
+  it("should key responses by model, messages and schema", () => {
+    const cache = new ResponseCache({ dir });
+    const key = cache.key(request);
+
+    assert.notStrictEqual(cache.key({ ...request, model: "test/other" }), key);
+    assert.notStrictEqual(cache.key({ ...request, jsonSchema: { type: "object" } }), key);
+    assert.notStrictEqual(
+      cache.key({ ...request, messages: [{ role: "user", content: [{ text: "bye" }] }] }),
+      key,
+    );
+  });
+
+  it("should never serve responses in record mode", async () => {
+    const cache = new ResponseCache({ dir, mode: "record" });
+    await cache.write(request, [{ a: 1 }]);
+    assert.strictEqual(await cache.read(request), undefined);
+  });
+
+  it("should fail on a cache miss in replay mode", async () => {
+    const cache = new ResponseCache({ dir, mode: "replay" });
+    await assert.rejects(cache.read(request), ResponseCacheMissError);
+  });
+});
+
+describe("Genthetic response caching", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const defineType = (genthetic: Genthetic) =>
+    genthetic
+      .defineType<{ id: number; name: string }>({
+        name: "Person",
+        schema: z.object({ id: z.number(), name: z.string() }),
+        batchSize: 2,
+      })
+      .fill({ id: (_, context) => context.batchNumber })
+      .generate({ fields: ["name"] });
+
+  it("should record responses and replay them without calling the model", async () => {
+    let calls = 0;
+    const ai = genkit({});
+    ai.defineModel({ name: "test/model" }, async () => {
+      calls++;
+      return {
+        message: { role: "model", content: [{ text: `[{"name":"A${calls}"},{"name":"B"}]` }] },
+      };
+    });
+
+    const recorder = new Genthetic({ ai, defaultModel: "test/model", cache: { dir } });
+    const recorded = await defineType(recorder).synthesize({ batches: 2 }).complete();
+    assert.strictEqual(calls, 2);
+
+    const replayer = new Genthetic({
+      ai: () => {
+        throw new Error("The provider should not be initialized in replay mode");
+      },
+      defaultModel: "test/model",
+    });
+    const replayed = await defineType(replayer)
+      .synthesize({ batches: 2, cache: { dir, mode: "replay" } })
+      .complete();
+
+    assert.deepStrictEqual(replayed, recorded);
+  });
+
+  it("should fail loudly on a cache miss in replay mode", async () => {
+    const genthetic = new Genthetic({
+      ai: () => genkit({}),
+      defaultModel: "test/model",
+      cache: { dir, mode: "replay" },
+    });
+
+    await assert.rejects(
+      defineType(genthetic).synthesize({ maxRetries: 0 }).complete(),
+      /Response cache miss/,
+    );
+  });
+
+  it("should not retry cache misses in replay mode", async () => {
+    const genthetic = new Genthetic({
+      ai: () => genkit({}),
+      defaultModel: "test/model",
+      cache: { dir, mode: "replay" },
+    });
+
+    await assert.rejects(
+      defineType(genthetic).synthesize({ retryDelayMs: 60_000 }).complete(),
+      (error: unknown) => {
+        assert.ok(error instanceof StageError);
+        assert.strictEqual(error.attempts, 1);
+        assert.ok(error.cause instanceof ResponseCacheMissError);
+        return true;
+      },
+    );
+  });
+});
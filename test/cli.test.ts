@@ -0,0 +1,131 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatProgress, runCli } from "../src/cli.js";
+
+const fixture = join(import.meta.dirname, "fixtures", "cli-types.ts");
+
+function capture(isTTY = false) {
+  const output = { stdout: "", stderr: "" };
+  const io = {
+    stdout: { write: (text: string) => (output.stdout += text) },
+    stderr: { write: (text: string) => (output.stderr += text), isTTY },
+  };
+  return { output, io };
+}
+
+describe("CLI", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-cli-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should list types and their stages", async () => {
+    const { output, io } = capture();
+    assert.strictEqual(await runCli(["list", fixture], io), 0);
+
+    assert.strictEqual(
+      output.stdout,
+      [
+        "Author (id, name)",
+        "  1. fill",
+        "Book",
+        "  depends on: Author",
+        '  1. fill "defaults"',
+        '  2. stage "shout"',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should load YAML definition files", async () => {
+    const { output, io } = capture();
+    const movies = join(import.meta.dirname, "fixtures", "movie.yaml");
+    assert.strictEqual(await runCli(["list", movies], io), 0, output.stderr);
+
+    assert.strictEqual(
+      output.stdout,
+      [
+        "Movie (title, genre, budget, rating, releaseDate, details, slug)",
+        '  1. fill "basics"',
+        '  2. generate "titles" (cached output)',
+        "  3. fill",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should synthesize a type to an output file with its dependencies", async () => {
+    const out = join(dir, "books.jsonl");
+    const { output, io } = capture();
+    const args = ["run", fixture, "--type", "Book", "--count", "3", "--out", out, "--seed", "42"];
+
+    assert.strictEqual(await runCli(args, io), 0, output.stderr);
+
+    const books = readFileSync(out, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    assert.strictEqual(books.length, 3);
+    assert.ok(
+      books.every((book) => book.title === "UNTITLED" && book.authorId.startsWith("author-")),
+    );
+    assert.strictEqual(output.stdout, "");
+    assert.match(output.stderr, /Book \[#+\] 1\/1 batches/);
+
+    // Seeded runs are reproducible
+    const second = join(dir, "books2.jsonl");
+    await runCli(
+      ["run", fixture, "--type", "Book", "--count", "3", "--out", second, "--seed", "42"],
+      io,
+    );
+    assert.strictEqual(readFileSync(second, "utf8"), readFileSync(out, "utf8"));
+  });
+
+  it("should print results to stdout without --out", async () => {
+    const { output, io } = capture();
+    assert.strictEqual(await runCli(["run", fixture, "--type", "Author", "--quiet"], io), 0);
+
+    const authors = JSON.parse(output.stdout);
+    assert.strictEqual(authors.length, 2);
+    assert.strictEqual(output.stderr, "");
+  });
+
+  it("should report usage errors", async () => {
+    const { output, io } = capture();
+
+    assert.strictEqual(await runCli(["run", fixture], io), 1);
+    assert.match(output.stderr, /defines several types; choose one with --type \(Author, Book\)/);
+
+    assert.strictEqual(await runCli(["run", fixture, "--type", "Movie"], io), 1);
+    assert.match(output.stderr, /Type "Movie" not found/);
+
+    assert.strictEqual(await runCli(["run", fixture, "--type", "Book", "--count", "many"], io), 1);
+    assert.match(output.stderr, /--count must be an integer/);
+
+    assert.strictEqual(await runCli(["frobnicate"], io), 1);
+    assert.match(output.stderr, /Unknown command "frobnicate"/);
+  });
+
+  it("should format progress with an estimate of the remaining time", () => {
+    const progress = {
+      batchesComplete: 5,
+      batchCount: 20,
+      currentBatch: { stagesComplete: 0, stageCount: 1 },
+      elapsedTime: 30_000,
+      countMismatches: 0,
+      usage: { requests: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 },
+    };
+    assert.strictEqual(
+      formatProgress("Movie", progress, 10),
+      "Movie [###-------] 5/20 batches 30s (ETA 1m 30s)",
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Genthetic } from "../src/genthetic.js";
+import { DefinitionError } from "../src/definitions.js";
+
+const fixture = join(import.meta.dirname, "fixtures", "movie.yaml");
+
+describe("Declarative type definitions", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-definitions-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should build a type from a YAML document", async () => {
+    const genthetic = new Genthetic({ mock: true });
+    const Movie = await genthetic.loadType<any>(fixture);
+
+    assert.strictEqual(Movie.name, "Movie");
+    assert.strictEqual(Movie.defaultBatchSize, 4);
+    assert.strictEqual(Movie.jsonSchema.description, "Feature films released in cinemas");
+    assert.deepStrictEqual(
+      Movie.stages.map((stage) => [stage.kind, stage.name, !!stage.cacheOutput]),
+      [
+        ["fill", "basics", false],
+        ["generate", "titles", true],
+        ["fill", undefined, false],
+      ],
+    );
+
+    // Generators declare the target distributions of their fields
+    assert.deepStrictEqual(
+      [...Movie.distributions.keys()],
+      ["genre", "budget", "rating", "releaseDate", "details.runtime"],
+    );
+
+    const movies = await Movie.synthesize({ count: 40, seed: 1 }).complete();
+    assert.strictEqual(movies.length, 40);
+    for (const movie of movies) {
+      assert.ok(["Action", "Comedy", "Drama"].includes(movie.genre));
+      assert.ok(["indie", "blockbuster"].includes(movie.budget));
+      assert.ok(Number.isInteger(movie.rating) && movie.rating >= 1 && movie.rating <= 5);
+      assert.match(movie.releaseDate, /^(199\d|20[0-2]\d)-\d{2}-\d{2}$/);
+      assert.ok(movie.details.runtime >= 80 && movie.details.runtime <= 180);
+      assert.strictEqual(movie.details.runtime, Number(movie.details.runtime.toFixed(1)));
+      assert.strictEqual(movie.details.language, "English");
+      assert.strictEqual(typeof movie.title, "string");
+      assert.strictEqual(movie.slug, `${movie.genre}-English-${movie.title}`);
+      assert.ok(!("__hints" in movie));
+    }
+
+    // Weighted choices follow their weights
+    const blockbusters = movies.filter((movie) => movie.budget === "blockbuster").length;
+    assert.ok(blockbusters > 20, `Expected mostly blockbusters, got ${blockbusters}/40`);
+
+    // Generators use the job's seeded random numbers
+    const reloaded = await genthetic.loadType<any>(fixture);
+    const again = await reloaded.synthesize({ count: 40, seed: 1 }).complete();
+    assert.deepStrictEqual(again, movies);
+  });
+
+  it("should build a type from a JSON document", async () => {
+    const file = join(dir, "tag.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        name: "Tag",
+        stages: [{ fill: { label: { weighted: [{ value: { text: "new" }, weight: 1 }] } } }],
+      }),
+    );
+
+    const Tag = await new Genthetic().loadType(file);
+    assert.deepStrictEqual(await Tag.synthesize({ count: 1 }).complete(), [
+      { label: { text: "new" } },
+    ]);
+  });
+
+  it("should treat the fields of a fill stage as fields, even when named like a generator", async () => {
+    const file = join(dir, "email.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        name: "Email",
+        stages: [{ fill: { template: { pick: ["welcome"] } } }, { fill: { range: "all" } }],
+      }),
+    );
+
+    const Email = await new Genthetic().loadType(file);
+    assert.deepStrictEqual(await Email.synthesize({ count: 1 }).complete(), [
+      { template: "welcome", range: "all" },
+    ]);
+  });
+
+  it("should report every problem with its path in the document", () => {
+    const genthetic = new Genthetic();
+    assert.throws(
+      () =>
+        genthetic.defineTypeFromDocument({
+          name: "Movie",
+          description: "Feature films",
+          batchSize: 0,
+          color: "blue",
+          stages: [
+            {
+              fill: {
+                genre: { pick: [] },
+                rating: { range: { min: 5, max: 1, step: 2 } },
+                budget: { weighted: { indie: -1 } },
+                details: { title: { template: 42 } },
+              },
+            },
+            { generate: { fields: "title", unique: "yes" } },
+            { fill: {}, generate: {} },
+          ],
+        }),
+      (error: unknown) => {
+        assert.ok(error instanceof DefinitionError);
+        assert.deepStrictEqual(
+          error.issues.map(({ path, message }) => `${path}: ${message}`),
+          [
+            "color: Unknown property. Expected one of: name, description, schema, batchSize, stages",
+            'description: Expected a "schema" for the description to describe',
+            "batchSize: Expected a positive integer",
+            "stages[0].fill.genre.pick: Expected a non-empty list of values",
+            "stages[0].fill.rating.range.step: Unknown property. Expected one of: min, max, integer, precision",
+            "stages[0].fill.rating.range: min must not be greater than max",
+            "stages[0].fill.budget.weighted.indie: Expected a non-negative number",
+            "stages[0].fill.budget.weighted: At least one weight must be positive",
+            "stages[0].fill.details.title.template: Expected a string",
+            "stages[1].generate.fields: Expected a list of field names",
+            "stages[1].generate.unique: Expected a boolean or an object with unique keys",
+            'stages[2]: Expected a stage with either "fill" or "generate"',
+          ],
+        );
+        assert.match(error.message, /^Invalid type definition:\n {2}color: Unknown property/);
+        return true;
+      },
+    );
+  });
+
+  it("should report YAML syntax errors with their line", async () => {
+    const file = join(dir, "broken.yaml");
+    writeFileSync(file, "name: Movie\nstages:\n  - fill: { genre: [Action\n");
+
+    await assert.rejects(new Genthetic().loadType(file), (error: unknown) => {
+      assert.ok(error instanceof DefinitionError);
+      assert.strictEqual(error.source, file);
+      assert.match(error.issues[0].path, /^line \d+$/);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic } from "../src/genthetic.js";
+import {
+  dateBetween,
+  distributionReport,
+  logNormal,
+  normal,
+  uniform,
+  weighted,
+} from "../src/distributions.js";
+
+interface Customer {
+  plan: string;
+  age: number;
+  seats: number;
+  spend: number;
+  signedUp: string;
+}
+
+interface Order {
+  id: number;
+  status: string;
+  refundReason?: string;
+}
+
+describe("Distributions", () => {
+  it("should draw fill values from distributions and report how close they came", async () => {
+    const Customer = new Genthetic().defineType<Customer>({ name: "Customer" }).fill({
+      plan: weighted({ free: 6, pro: 3, enterprise: 1 }),
+      age: normal({ mean: 40, stdDev: 12, min: 18, max: 80, integer: true }),
+      seats: uniform({ min: 1, max: 5, integer: true }),
+      spend: logNormal({ mu: 4, sigma: 0.5, precision: 2 }),
+      signedUp: dateBetween("2020-01-01", "2024-12-31"),
+    });
+
+    const job = Customer.synthesize({ count: 2000, batchSize: 100, seed: 7 });
+    const customers = await job.complete();
+
+    assert.ok(customers.every(({ age }) => Number.isInteger(age) && age >= 18 && age <= 80));
+    assert.deepStrictEqual(
+      [...new Set(customers.map(({ seats }) => seats))].sort(),
+      [1, 2, 3, 4, 5],
+    );
+    assert.ok(customers.every(({ spend }) => spend > 0 && spend === Number(spend.toFixed(2))));
+    assert.ok(
+      customers.every(
+        ({ signedUp }) => /^\d{4}-\d{2}-\d{2}$/.test(signedUp) && signedUp >= "2020-01-01",
+      ),
+    );
+
+    const report = job.distributionReport();
+    assert.deepStrictEqual(Object.keys(report), ["plan", "age", "seats", "spend", "signedUp"]);
+
+    const plan = report.plan;
+    assert.strictEqual(plan.kind, "categorical");
+    assert.deepStrictEqual(plan.target, { free: 0.6, pro: 0.3, enterprise: 0.1 });
+    assert.ok(plan.maxDeviation < 0.05, `Plan deviation ${plan.maxDeviation}`);
+
+    const age = report.age;
+    assert.ok(age.kind === "numeric" && Math.abs(age.achieved.mean - 40) < 1.5);
+    const spend = report.spend;
+    assert.ok(spend.kind === "numeric");
+    assert.ok(Math.abs(spend.achieved.mean - spend.target.mean) / spend.target.mean < 0.05);
+
+    const signedUp = report.signedUp;
+    assert.ok(signedUp.kind === "date" && signedUp.achieved.from! >= signedUp.target.from);
+  });
+
+  it("should count values that aren't dates instead of failing the report", () => {
+    const items = [{ at: "2021-06-01" }, { at: "not a date" }, { at: "2020-01-01" }, {}];
+    const report = distributionReport(
+      items,
+      new Map([["at", { kind: "date", from: "2020-01-01", to: "2021-12-31" } as const]]),
+    );
+
+    assert.deepStrictEqual(report.at, {
+      kind: "date",
+      count: 2,
+      invalid: 1,
+      target: { from: "2020-01-01", to: "2021-12-31" },
+      achieved: { from: "2020-01-01T00:00:00.000Z", to: "2021-06-01T00:00:00.000Z" },
+    });
+  });
+
+  it("should allocate exact stratum counts across batches", async () => {
+    const seen: string[][] = [];
+    const Order = new Genthetic()
+      .defineType<Order>({ name: "Order", batchSize: 3 })
+      .stage((batch) => {
+        // Stratified values are set before the first stage
+        seen.push(batch.map((order) => order.status!));
+        return batch;
+      })
+      .fill({
+        id: (_, context) => context.batchNumber,
+        refundReason: (order) => (order.status === "refunded" ? "damaged" : undefined),
+      });
+
+    const options = { count: 10, seed: 3, stratify: { status: { refunded: 3, completed: 7 } } };
+    const job = Order.synthesize(options);
+    const orders = await job.complete();
+
+    const refunded = orders.filter((order) => order.status === "refunded");
+    assert.strictEqual(refunded.length, 3);
+    assert.ok(refunded.every((order) => order.refundReason === "damaged"));
+    assert.deepStrictEqual(seen.flat(), [...orders.map((order) => order.status)]);
+
+    const { status } = job.distributionReport();
+    assert.ok(status.kind === "categorical" && status.maxDeviation < 1e-9);
+
+    // Seeded runs allocate strata in the same order
+    const again = await Order.synthesize(options).complete();
+    assert.deepStrictEqual(again, orders);
+
+    assert.throws(
+      () => Order.synthesize({ stratify: { status: { refunded: -1 } } }),
+      /Invalid "stratify.status" option: Weights must be non-negative numbers/,
+    );
+  });
+});
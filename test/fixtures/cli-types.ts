@@ -0,0 +1,19 @@
+import { Genthetic, belongsTo, z } from "../../src/index.js";
+
+const genthetic = new Genthetic();
+
+export const Author = genthetic
+  .defineType<{ id: string; name: string }>({
+    name: "Author",
+    schema: z.object({ id: z.string(), name: z.string() }),
+    batchSize: 2,
+  })
+  .fill({
+    id: (_, context) => `author-${Math.floor(context.random() * 1e6)}`,
+    name: "Ann",
+  });
+
+export const Book = genthetic
+  .defineType<{ title: string; authorId: string }>({ name: "Book" })
+  .fill("defaults", { title: "Untitled", authorId: belongsTo(Author) })
+  .stage("shout", (batch) => batch.map((book) => ({ ...book, title: book.title?.toUpperCase() })));
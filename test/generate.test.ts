@@ -0,0 +1,193 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { genkit, z, type Genkit } from "genkit";
+import { generateSyntheticData, type GenerateEvent } from "../src/generate.js";
+import { Genthetic } from "../src/genthetic.js";
+
+const schema = { type: "object", properties: { name: { type: "string" } } };
+
+// Count mismatch events, without the usage event reported for each model call
+const mismatches = (events: GenerateEvent[]) =>
+  events.filter((event) => event.type === "count-mismatch");
+
+// Create a Genkit instance whose model returns the given number of objects for each request
+function createTestGenkit(counts: number[], prompts: string[] = []) {
+  const ai = genkit({});
+  ai.defineModel({ name: "test/model" }, async (request) => {
+    const text = request.messages[0].content[0].text || "";
+    prompts.push(text);
+    const count = counts.shift() ?? 0;
+    const output = Array.from({ length: count }, (_, i) => ({
+      name: `Item ${prompts.length}-${i}`,
+    }));
+    return { message: { role: "model", content: [{ text: JSON.stringify(output) }] } };
+  });
+  return async () => ai;
+}
+
+describe("generateSyntheticData", () => {
+  it("should request only the missing objects when the model returns too few", async () => {
+    const prompts: string[] = [];
+    const events: GenerateEvent[] = [];
+    const output = await generateSyntheticData(
+      createTestGenkit([2, 1], prompts),
+      {
+        schema,
+        model: "test/model",
+        data: [{ id: 0 }, { id: 1 }, { id: 2 }],
+      },
+      { onEvent: (event) => events.push(event) },
+    );
+
+    assert.deepStrictEqual(output, [
+      { name: "Item 1-0" },
+      { name: "Item 1-1" },
+      { name: "Item 2-0" },
+    ]);
+    assert.strictEqual(prompts.length, 2);
+    assert.strictEqual(events.filter((event) => event.type === "usage").length, 2);
+    assert.ok(prompts[1].includes("generate 1 objects"));
+    assert.ok(prompts[1].includes('"id": 2') && !prompts[1].includes('"id": 1'));
+    assert.deepStrictEqual(mismatches(events), [
+      { type: "count-mismatch", expected: 3, received: 2, recovered: true },
+    ]);
+  });
+
+  it("should drop extra objects", async () => {
+    const events: GenerateEvent[] = [];
+    const output = await generateSyntheticData(
+      createTestGenkit([4]),
+      { schema, model: "test/model", count: 2 },
+      { onEvent: (event) => events.push(event) },
+    );
+
+    assert.strictEqual(output.length, 2);
+    assert.deepStrictEqual(mismatches(events), [
+      { type: "count-mismatch", expected: 2, received: 4, recovered: true },
+    ]);
+  });
+
+  it("should give up after a limited number of follow-up requests", async () => {
+    const prompts: string[] = [];
+    const events: GenerateEvent[] = [];
+    const output = await generateSyntheticData(
+      createTestGenkit([1, 0, 0, 0], prompts),
+      { schema, model: "test/model", count: 3 },
+      { onEvent: (event) => events.push(event) },
+    );
+
+    assert.strictEqual(output.length, 1);
+    assert.strictEqual(prompts.length, 3);
+    assert.deepStrictEqual(mismatches(events), [
+      { type: "count-mismatch", expected: 3, received: 1, recovered: false },
+    ]);
+  });
+
+  it("should treat a follow-up response without output as no objects", async () => {
+    // A provider whose second response has no parsed output
+    const outputs = [[{ name: "A" }], null, [{ name: "B" }]];
+    const ai = { generate: async () => ({ output: outputs.shift() }) } as unknown as Genkit;
+
+    const events: GenerateEvent[] = [];
+    const output = await generateSyntheticData(
+      async () => ai,
+      { schema, model: "test/model", count: 2 },
+      { onEvent: (event) => events.push(event) },
+    );
+
+    assert.deepStrictEqual(output, [{ name: "A" }, { name: "B" }]);
+    assert.deepStrictEqual(mismatches(events), [
+      { type: "count-mismatch", expected: 2, received: 1, recovered: true },
+    ]);
+  });
+});
+
+describe("Genthetic batch size mismatches", () => {
+  it("should count mismatches in job progress", async () => {
+    const genthetic = new Genthetic({
+      ai: createTestGenkit([1, 1, 2]),
+      defaultModel: "test/model",
+    });
+    const type = genthetic
+      .defineType<{ name: string }>({ name: "Named", schema: z.object({ name: z.string() }) })
+      .generate();
+
+    let countMismatches = 0;
+    const results = await type
+      .synthesize({
+        batchSize: 2,
+        batches: 2,
+        concurrency: 1,
+        onProgress: (progress) => (countMismatches = progress.countMismatches),
+      })
+      .complete();
+
+    assert.strictEqual(results.length, 4);
+    assert.ok(results.every((item) => item.name));
+    assert.strictEqual(countMismatches, 1);
+  });
+});
+
+describe("TypeDefinition.generateField", () => {
+  it("should generate a field per item with only the relevant fields as context", async () => {
+    const ai = genkit({});
+    const requests: { model: string; text: string; schema?: string }[] = [];
+    for (const name of ["short", "prose"]) {
+      ai.defineModel({ name: `test/${name}` }, async (request) => {
+        const text = request.messages[0].content[0].text || "";
+        // The output schema is appended to the prompt for models without constrained output
+        const schema = request.messages[0].content.find(
+          (part) => part.metadata?.purpose === "output",
+        )?.text;
+        requests.push({ model: name, text, schema });
+        const output =
+          name === "short"
+            ? text.match(/"sku": "\w+"/g)?.map((_, i) => ({ name: `Widget ${i}` }))
+            : { description: `About ${text.match(/"name": "([\w ]+)"/)?.[1]}` };
+        return { message: { role: "model", content: [{ text: JSON.stringify(output) }] } };
+      });
+    }
+
+    const genthetic = new Genthetic({ ai });
+    const Product = genthetic
+      .defineType<{ sku: string; name: string; description: string }>({
+        name: "Product",
+        schema: z.object({ sku: z.string(), name: z.string(), description: z.string() }),
+      })
+      .fill({ sku: (_, context) => `sku${context.batchNumber}` })
+      .generate({ fields: ["name"], model: "test/short" })
+      .generateField("description", {
+        model: "test/prose",
+        instructions: "Write two paragraphs.",
+        dependsOn: ["name"],
+      });
+
+    assert.deepStrictEqual(Product.stages.at(-1)?.name, "description");
+
+    const products = await Product.synthesize({ batchSize: 2, batches: 1 }).complete();
+    assert.deepStrictEqual(products, [
+      { sku: "sku0", name: "Widget 0", description: "About Widget 0" },
+      { sku: "sku0", name: "Widget 1", description: "About Widget 1" },
+    ]);
+
+    const fieldRequests = requests.filter((request) => request.model === "prose");
+    assert.strictEqual(fieldRequests.length, 2);
+    for (const { text, schema } of fieldRequests) {
+      assert.ok(text.includes('"description" field'));
+      assert.ok(text.includes("Write two paragraphs."));
+      assert.ok(!text.includes("sku"), "Fields outside dependsOn shouldn't be sent");
+      assert.match(schema ?? "", /"properties":\{"description":\{"type":"string"\}\}/);
+    }
+  });
+
+  it("should generate fields with the mock model", async () => {
+    const Product = new Genthetic({ mock: true })
+      .defineType<{ name: string; description: string }>({ name: "Product" })
+      .fill({ name: "Widget" })
+      .generateField("description");
+
+    const [product] = await Product.synthesize({ count: 1 }).complete();
+    assert.strictEqual(product.name, "Widget");
+    assert.strictEqual(typeof product.description, "string");
+  });
+});
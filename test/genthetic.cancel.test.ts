@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { setTimeout as sleep } from "node:timers/promises";
+import { genkit, z } from "genkit";
+import { Genthetic, SynthesisCancelledError } from "../src/genthetic.js";
+
+interface Item {
+  batch: number;
+}
+
+describe("Genthetic cancellation", () => {
+  it("should stop starting batches and reject with partial results on cancel()", async () => {
+    const started: number[] = [];
+    const genthetic = new Genthetic();
+    const type = genthetic
+      .defineType<Item>({ name: "Item", batchSize: 1 })
+      .stage(async (batch, context) => {
+        started.push(context.batchNumber);
+        await sleep(20);
+        return batch.map(() => ({ batch: context.batchNumber }));
+      });
+
+    const job = type.synthesize({
+      batches: 10,
+      concurrency: 2,
+      onBatch: (_, { batchNumber }) => {
+        if (batchNumber === 1) job.cancel(new Error("stop"));
+      },
+    });
+
+    await assert.rejects(job.complete(), (error: unknown) => {
+      assert.ok(error instanceof SynthesisCancelledError);
+      assert.strictEqual(error.message, "Synthesis cancelled: stop (2 items completed)");
+      assert.deepStrictEqual(error.results, [{ batch: 0 }, { batch: 1 }]);
+      return true;
+    });
+
+    // Batches already running when cancelled finish, but no new batches start
+    await sleep(50);
+    assert.ok(
+      started.length < 10,
+      `Expected fewer than 10 batches to start, got ${started.length}`,
+    );
+  });
+
+  it("should cancel when the supplied signal is aborted and expose it to stages", async () => {
+    const controller = new AbortController();
+    const genthetic = new Genthetic();
+    const type = genthetic.defineType<Item>({ name: "Item" }).stage(
+      (batch, context) =>
+        new Promise((resolve, reject) => {
+          // A long-running stage that stops when the job is cancelled
+          const timer = setTimeout(() => resolve(batch), 10_000);
+          context.signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(context.signal.reason);
+          });
+        }),
+    );
+
+    const completion = type.synthesize({ signal: controller.signal, maxRetries: 5 }).complete();
+    setTimeout(() => controller.abort(), 10);
+
+    await assert.rejects(completion, SynthesisCancelledError);
+  });
+
+  it("should run serial jobs until cancelled", async () => {
+    const genthetic = new Genthetic();
+    const type = genthetic
+      .defineType<Item>({ name: "Item", batchSize: 2 })
+      .stage((batch, context) => batch.map(() => ({ batch: context.batchNumber })), {
+        cacheOutput: true,
+      });
+
+    const job = type.synthesize({
+      batches: 5,
+      onBatch: (_, { batchNumber }) => batchNumber === 2 && job.cancel(),
+    });
+
+    await assert.rejects(job.complete(), (error: unknown) => {
+      assert.ok(error instanceof SynthesisCancelledError);
+      assert.strictEqual(error.results.length, 6);
+      return true;
+    });
+  });
+
+  it("should abort in-flight generate calls", async () => {
+    let aborted = false;
+    const ai = genkit({});
+    ai.defineModel({ name: "test/slow", apiVersion: "v2" }, async (_, { abortSignal }) => {
+      await new Promise((resolve) => {
+        abortSignal.addEventListener("abort", resolve);
+        setTimeout(resolve, 5_000);
+      });
+      aborted = abortSignal.aborted;
+      throw new Error("aborted");
+    });
+
+    const genthetic = new Genthetic({ ai, defaultModel: "test/slow" });
+    const job = genthetic
+      .defineType({ name: "Named", schema: z.object({ name: z.string() }) })
+      .generate()
+      .synthesize();
+
+    const completion = job.complete();
+    setTimeout(() => job.cancel(), 50);
+
+    await assert.rejects(completion, SynthesisCancelledError);
+    assert.ok(aborted, "The model call should receive the aborted signal");
+  });
+
+  it("should share a single run between complete() calls", async () => {
+    let runs = 0;
+    const genthetic = new Genthetic();
+    const job = genthetic
+      .defineType<Item>({ name: "Item" })
+      .stage((batch) => (runs++, batch))
+      .synthesize();
+
+    assert.strictEqual(job.complete(), job.complete());
+    await job.complete();
+    assert.strictEqual(runs, 1);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Genthetic, type WithHints } from "../src/genthetic.js";
+import { readCheckpoint } from "../src/checkpoint.js";
+
+interface Reading {
+  batch: number;
+  value: number;
+}
+
+describe("Genthetic checkpoints", () => {
+  let dir: string;
+  let checkpoint: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-checkpoint-"));
+    checkpoint = join(dir, "checkpoint.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function defineType(genthetic: Genthetic, failOnBatch?: number) {
+    const processed: number[] = [];
+    const type = genthetic
+      .defineType<Reading>({ name: "Reading", batchSize: 2 })
+      .stage((batch, context) => {
+        if (context.batchNumber === failOnBatch) throw new Error("Crashed");
+        processed.push(context.batchNumber);
+        return batch.map(() => ({
+          batch: context.batchNumber,
+          value: context.random(),
+          __hints: { keep: true },
+        }));
+      });
+    return { type, processed };
+  }
+
+  it("should resume an interrupted job where it stopped", async () => {
+    const genthetic = new Genthetic();
+    const expected = await defineType(genthetic)
+      .type.synthesize({ batches: 5, seed: 3 })
+      .complete();
+
+    const crashed = defineType(genthetic, 3);
+    await assert.rejects(
+      crashed.type
+        .synthesize({ batches: 5, seed: 3, concurrency: 1, maxRetries: 0, checkpoint })
+        .complete(),
+      /Crashed/,
+    );
+    assert.deepStrictEqual(crashed.processed, [0, 1, 2]);
+
+    const saved = readCheckpoint<WithHints<Reading>>(checkpoint)!;
+    assert.deepStrictEqual(
+      saved.batches.map((batch) => batch.batchNumber),
+      [0, 1, 2],
+    );
+    assert.deepStrictEqual(saved.batches[0].items[0].__hints, { keep: true });
+
+    // The seed is taken from the checkpoint when not supplied
+    const resumed = defineType(genthetic);
+    const onBatch: number[] = [];
+    const results = await resumed.type
+      .synthesize({
+        batches: 5,
+        checkpoint,
+        resume: true,
+        onBatch: (_, { batchNumber }) => onBatch.push(batchNumber),
+      })
+      .complete();
+
+    assert.deepStrictEqual(resumed.processed, [3, 4]);
+    assert.deepStrictEqual(onBatch, [3, 4]);
+    assert.deepStrictEqual(results, expected);
+  });
+
+  it("should restore the store when resuming", async () => {
+    const defineCounter = (failOnBatch?: number) =>
+      new Genthetic()
+        .defineType<{ number: number }>({ name: "Counter", batchSize: 2 })
+        .stage((batch, context) => {
+          if (context.batchNumber === failOnBatch) throw new Error("Crashed");
+          return batch.map(() => ({ number: context.store.increment("count") }));
+        });
+    const options = { batches: 3, concurrency: 1, maxRetries: 0, checkpoint };
+
+    await assert.rejects(defineCounter(2).synthesize(options).complete(), /Crashed/);
+    const job = defineCounter().synthesize({ ...options, resume: true });
+    const results = await job.complete();
+
+    assert.deepStrictEqual(
+      results.map((item) => item.number),
+      [1, 2, 3, 4, 5, 6],
+    );
+    assert.strictEqual(job.store.get("count"), 6);
+  });
+
+  it("should rehydrate previous data for cached stage outputs", async () => {
+    const genthetic = new Genthetic();
+    let failOnBatch: number | undefined = 2;
+    const previousCounts: number[] = [];
+    const type = genthetic.defineType<Reading>({ name: "Reading", batchSize: 2 }).stage(
+      (batch, context) => {
+        if (context.batchNumber === failOnBatch) throw new Error("Crashed");
+        previousCounts.push(context.previousData?.length ?? 0);
+        return batch.map((_, index) => ({ batch: context.batchNumber, value: index }));
+      },
+      { cacheOutput: true },
+    );
+
+    await assert.rejects(type.synthesize({ batches: 4, checkpoint }).complete(), /Crashed/);
+
+    failOnBatch = undefined;
+    const results = await type.synthesize({ batches: 4, checkpoint, resume: true }).complete();
+
+    assert.deepStrictEqual(previousCounts, [0, 2, 4, 6]);
+    assert.deepStrictEqual(
+      results.map((item) => item.batch),
+      [0, 0, 1, 1, 2, 2, 3, 3],
+    );
+  });
+
+  it("should append each completed batch to the checkpoint", async () => {
+    const { type } = defineType(new Genthetic());
+    const sizes: number[] = [];
+    await type
+      .synthesize({
+        batches: 3,
+        concurrency: 1,
+        checkpoint,
+        onBatch: () => sizes.push(readFileSync(checkpoint, "utf8").split("\n").length),
+      })
+      .complete();
+
+    // A header line, then a line per batch
+    const lines = readFileSync(checkpoint, "utf8").trimEnd().split("\n");
+    assert.strictEqual(lines.length, 4);
+    assert.deepStrictEqual(sizes, [3, 4, 5]);
+
+    // A batch line cut short by a crash is ignored
+    writeFileSync(checkpoint, `${lines.slice(0, 3).join("\n")}\n${lines[3].slice(0, 20)}`);
+    const { type: resumed, processed } = defineType(new Genthetic());
+    const results = await resumed.synthesize({ batches: 3, checkpoint, resume: true }).complete();
+    assert.deepStrictEqual(processed, [2]);
+    assert.strictEqual(results.length, 6);
+    assert.strictEqual(readCheckpoint(checkpoint)!.batches.length, 3);
+  });
+
+  it("should refuse checkpoint files in other formats", async () => {
+    writeFileSync(checkpoint, JSON.stringify({ version: 1, type: "Reading", batches: {} }));
+
+    const { type, processed } = defineType(new Genthetic());
+    await assert.rejects(
+      type.synthesize({ batches: 2, checkpoint, resume: true }).complete(),
+      /Unsupported checkpoint file .* \(expected version 2, found 1\)/,
+    );
+    assert.deepStrictEqual(processed, []);
+  });
+
+  it("should start from scratch when the checkpoint doesn't exist", async () => {
+    const { type, processed } = defineType(new Genthetic());
+    await type.synthesize({ batches: 2, checkpoint, resume: true }).complete();
+
+    assert.deepStrictEqual(processed.sort(), [0, 1]);
+    assert.ok(existsSync(checkpoint));
+  });
+
+  it("should refuse to resume a checkpoint from a different job", async () => {
+    const { type } = defineType(new Genthetic());
+    await type.synthesize({ batches: 2, seed: 1, checkpoint }).complete();
+
+    await assert.rejects(
+      type.synthesize({ batches: 3, checkpoint, resume: true }).complete(),
+      /was created by a different job/,
+    );
+    await assert.rejects(
+      type.synthesize({ batches: 2, seed: 2, checkpoint, resume: true }).complete(),
+      /was created with seed 1, not 2/,
+    );
+    assert.throws(() => type.synthesize({ resume: true }), /requires a "checkpoint" file/);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
+import { genkit, z } from "genkit";
 import { Genthetic, StageContext } from "../src/genthetic.js";
 
 describe("Genthetic Concurrency and Throttling", () => {
@@ -249,4 +250,69 @@ describe("Genthetic Concurrency and Throttling", () => {
     assert.strictEqual(attemptCounts[0], 1, "Batch 0 should not be retried");
     assert.strictEqual(attemptCounts[2], 1, "Batch 2 should not be retried");
   });
+
+  it("should share one rate limiter between concurrent jobs", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    let calls = 0;
+
+    const ai = genkit({});
+    ai.defineModel({ name: "test/limited" }, async () => {
+      calls++;
+      // The first call is rejected by the provider's quota and retried on its own
+      if (calls === 1) {
+        throw Object.assign(new Error("Quota exceeded"), { status: 429, retryAfterMs: 20 });
+      }
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      return { message: { role: "model", content: [{ text: JSON.stringify([{ name: "A" }]) }] } };
+    });
+
+    const genthetic = new Genthetic({
+      ai,
+      defaultModel: "test/limited",
+      rateLimit: { concurrency: 1 },
+    });
+    const type = genthetic
+      .defineType<{ name: string }>({ name: "Limited", schema: z.object({ name: z.string() }) })
+      .generate();
+
+    // Stage retries are disabled, so the rate limit error must be retried by the limiter
+    const options = { batchSize: 1, batches: 3, concurrency: 3, maxRetries: 0 };
+    const results = await Promise.all([
+      type.synthesize(options).complete(),
+      type.synthesize(options).complete(),
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((items) => items.length),
+      [3, 3]
+    );
+    assert.strictEqual(calls, 7);
+    assert.strictEqual(maxRunning, 1, "Model calls from both jobs should run one at a time");
+  });
+
+  it("should leave rate limit retries to the rate limiter", async () => {
+    let calls = 0;
+
+    const ai = genkit({});
+    ai.defineModel({ name: "test/exhausted" }, async () => {
+      calls++;
+      throw Object.assign(new Error("Quota exceeded"), { status: 429, retryAfterMs: 1 });
+    });
+
+    const genthetic = new Genthetic({
+      ai,
+      defaultModel: "test/exhausted",
+      rateLimit: { maxRetries: 2 },
+    });
+    const type = genthetic
+      .defineType<{ name: string }>({ name: "Exhausted", schema: z.object({ name: z.string() }) })
+      .generate();
+
+    await assert.rejects(type.synthesize({ batchSize: 1, batches: 1, maxRetries: 3 }).complete());
+    assert.strictEqual(calls, 3, "The stage should not retry calls the limiter gave up on");
+  });
 });
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { setTimeout as sleep } from "timers/promises";
+import { Genthetic } from "../src/genthetic.js";
+import { JobStore } from "../src/store.js";
+
+interface User {
+  id: number;
+  role: string;
+  position: number;
+  firstInBatch: number;
+  signupNumber: number;
+}
+
+describe("Item context", () => {
+  it("should give fill functions item indexes and a store shared by concurrent batches", async () => {
+    const User = new Genthetic()
+      .defineType<User>({ name: "User", batchSize: 4 })
+      .stage(async (batch, context) => {
+        // Finish later batches first
+        await sleep((3 - context.batchNumber) * 5);
+        return batch.map(() => ({ firstInBatch: context.firstIndex }));
+      })
+      .fill({
+        id: (_, context) => context.globalIndex! + 1,
+        position: (_, context) => context.itemIndex!,
+        role: (_, context) => ((context.globalIndex! + 1) % 5 === 0 ? "admin" : "member"),
+        signupNumber: (_, context) => context.store.increment("signups"),
+      });
+
+    const job = User.synthesize({ count: 10, concurrency: 3 });
+    const users = await job.complete();
+
+    assert.deepStrictEqual(
+      users.map((user) => user.id),
+      [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    );
+    assert.deepStrictEqual(
+      users.map((user) => user.position),
+      [0, 1, 2, 3, 0, 1, 2, 3, 0, 1],
+    );
+    assert.deepStrictEqual(
+      users.map((user) => user.firstInBatch),
+      [0, 0, 0, 0, 4, 4, 4, 4, 8, 8],
+    );
+    assert.deepStrictEqual(
+      users.filter((user) => user.role === "admin").map((user) => user.id),
+      [5, 10],
+    );
+
+    // Counters are shared by all batches, so every item gets its own number
+    const numbers = users.map((user) => user.signupNumber).sort((a, b) => a - b);
+    assert.deepStrictEqual(numbers, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.strictEqual(job.store.get("signups"), 10);
+  });
+
+  it("should update store values in a single call", () => {
+    const store = new JobStore();
+    assert.strictEqual(store.increment("count"), 1);
+    assert.strictEqual(store.increment("count", 4), 5);
+    assert.deepStrictEqual(
+      store.update<string[]>("seen", (seen) => [...seen, "a"], []),
+      ["a"],
+    );
+    assert.deepStrictEqual(
+      store.update<string[]>("seen", (seen) => [...seen, "b"]),
+      ["a", "b"],
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic } from "../src/genthetic.js";
+import { normalizeText, textSimilarity } from "../src/dedupe.js";
+
+interface Movie {
+  title: string;
+  year?: number;
+}
+
+// Titles of each batch of two movies
+const titles = [
+  ["The Last Frontier", "Night Train"],
+  ["Last Frontier", "Night Trains"],
+  ["Blue Harbor", "night train!"],
+];
+
+const defineMovie = () =>
+  new Genthetic()
+    .defineType<Movie>({ name: "Movie", batchSize: 2 })
+    .stage((batch, context) => batch.map((_, i) => ({ title: titles[context.batchNumber][i] })));
+
+describe("Dedupe stage", () => {
+  it("should compare normalized and similar text", () => {
+    assert.strictEqual(normalizeText("  The Last-Frontier! "), "last frontier");
+    assert.strictEqual(normalizeText("Amélie"), "amelie");
+    assert.strictEqual(textSimilarity("The Last Frontier", "last frontier"), 1);
+    assert.ok(textSimilarity("Night Train", "Night Trains") > 0.9);
+    assert.ok(textSimilarity("Night Train", "Blue Harbor") < 0.3);
+  });
+
+  it("should drop duplicates of earlier items", async () => {
+    const job = defineMovie()
+      .dedupe({ fields: ["title"] })
+      .synthesize({ batches: 3, concurrency: 1, logging: "none" });
+    const movies = await job.complete();
+
+    assert.deepStrictEqual(
+      movies.map((movie) => movie.title),
+      ["The Last Frontier", "Night Train", "Night Trains", "Blue Harbor"],
+    );
+    assert.deepStrictEqual(
+      job.duplicates.map(({ batchNumber, item, duplicateOf, action }) => [
+        batchNumber,
+        item.title,
+        duplicateOf.title,
+        action,
+      ]),
+      [
+        [1, "Last Frontier", "The Last Frontier", "drop"],
+        [2, "night train!", "Night Train", "drop"],
+      ],
+    );
+  });
+
+  it("should forget the items of batches that aren't output", async () => {
+    const job = defineMovie()
+      .dedupe({ fields: ["title"] })
+      .stage(
+        (batch, context) => {
+          if (context.batchNumber === 0) throw new Error("Model overloaded");
+          return batch;
+        },
+        { retry: { maxAttempts: 1 } },
+      )
+      .synthesize({ batches: 3, concurrency: 1, failureMode: "skip", logging: "none" });
+    const movies = await job.complete();
+
+    // Batch 1 isn't compared with the titles of the failed batch 0
+    assert.deepStrictEqual(
+      movies.map((movie) => movie.title),
+      ["Last Frontier", "Night Trains", "Blue Harbor", "night train!"],
+    );
+    assert.deepStrictEqual(job.duplicates, []);
+  });
+
+  it("should flag similar items in fuzzy mode", async () => {
+    const job = defineMovie()
+      .dedupe({ fields: ["title"], mode: "fuzzy", threshold: 0.9, action: "flag" })
+      .synthesize({ batches: 3, concurrency: 1, logging: "none" });
+
+    assert.strictEqual((await job.complete()).length, 6);
+    const trains = job.duplicates.find(({ item }) => item.title === "Night Trains");
+    assert.strictEqual(trains?.duplicateOf.title, "Night Train");
+    assert.ok(trains.similarity >= 0.9 && trains.similarity < 1);
+    assert.deepStrictEqual(
+      job.duplicates.map(({ action }) => action),
+      ["flag", "flag", "flag"],
+    );
+  });
+
+  it("should regenerate duplicates with the model", async () => {
+    const job = new Genthetic({ mock: true })
+      .defineType<Movie>({
+        name: "Movie",
+        jsonSchema: {
+          type: "object",
+          properties: { title: { type: "string" }, year: { type: "integer" } },
+        },
+      })
+      .fill({ title: "Heat", year: 1995 })
+      .dedupe({ fields: ["title"], mode: "exact", action: "regenerate" })
+      .synthesize({ count: 4, logging: "none" });
+    const movies = await job.complete();
+
+    assert.strictEqual(movies.length, 4);
+    assert.strictEqual(new Set(movies.map((movie) => movie.title)).size, 4);
+    assert.ok(movies.every((movie) => movie.year === 1995));
+    assert.deepStrictEqual(
+      job.duplicates.map(({ item, action }) => [item.title, action]),
+      [
+        ["Heat", "regenerate"],
+        ["Heat", "regenerate"],
+        ["Heat", "regenerate"],
+      ],
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic, StageError, resolveObject } from "../src/genthetic.js";
+import { OMIT, when } from "../src/conditional.js";
+import { ref } from "../src/relations.js";
+
+interface Order {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  status: string;
+  shippedAt?: string;
+  shipping?: { carrier: string; tracking: string };
+  note?: string;
+  customerId?: string;
+}
+
+describe("Derived and conditional fields", () => {
+  it("should resolve fields that depend on fields of the same shape", async () => {
+    let calls = 0;
+    const Order = new Genthetic().defineType<Order>({ name: "Order", batchSize: 2 }).fill({
+      // Declared before the fields it reads
+      email: (order) => {
+        calls++;
+        return `${order.firstName}.${order.lastName}@example.com`.toLowerCase();
+      },
+      firstName: (_, context) => (context.itemIndex === 0 ? "Ada" : "Alan"),
+      lastName: (order) => (order.firstName === "Ada" ? "Lovelace" : "Turing"),
+      id: (order) => (order.id ?? 0) + 1,
+    });
+
+    const orders = await Order.synthesize({ count: 2 }).complete();
+
+    assert.deepStrictEqual(
+      orders.map(({ email }) => email),
+      ["ada.lovelace@example.com", "alan.turing@example.com"],
+    );
+    // Reading its own field gives the value from earlier stages
+    assert.deepStrictEqual(
+      orders.map(({ id }) => id),
+      [1, 1],
+    );
+    // `email` is stopped when it reads a field that isn't resolved yet, and runs again once it is
+    assert.strictEqual(calls, 2 * 3);
+  });
+
+  it("should run functions again when they catch reads of pending fields", async () => {
+    const Order = new Genthetic().defineType<Order>({ name: "Order" }).fill({
+      note: (order, context) => {
+        // Side effects before the read happen on every run
+        context.store.increment("runs");
+        try {
+          return `Ships ${order.status}`;
+        } catch {
+          return "Status unknown";
+        }
+      },
+      status: "today",
+    });
+
+    const job = Order.synthesize({ count: 1 });
+    const [order] = await job.complete();
+
+    assert.deepStrictEqual(order, { note: "Ships today", status: "today" });
+    assert.strictEqual(job.store.get("runs"), 2);
+  });
+
+  it("should fill conditional fields and omit the others", async () => {
+    const Order = new Genthetic()
+      .defineType<Order>({ name: "Order" })
+      .fill({ status: "pending", note: "from an earlier stage" })
+      .fill({
+        shipping: when((order) => order.status === "shipped", {
+          carrier: "UPS",
+          tracking: (_, context) => `1Z${context.globalIndex}`,
+        }),
+        shippedAt: when(
+          (order) => order.status === "shipped",
+          "2024-05-01",
+          () => undefined,
+        ),
+        status: (_, context) => (context.globalIndex! % 2 ? "shipped" : "pending"),
+        note: (order) => (order.shipping ? order.note : OMIT),
+      });
+
+    const [pending, shipped] = await Order.synthesize({ count: 2 }).complete();
+
+    assert.deepStrictEqual(pending, { status: "pending", shippedAt: undefined });
+    assert.deepStrictEqual(shipped, {
+      status: "shipped",
+      note: "from an earlier stage",
+      shipping: { carrier: "UPS", tracking: "1Z1" },
+      shippedAt: "2024-05-01",
+    });
+  });
+
+  it("should fail on circular dependencies", async () => {
+    const Order = new Genthetic().defineType<Order>({ name: "Order" }).fill({
+      firstName: (order) => order.email!.split("@")[0],
+      lastName: "Lovelace",
+      email: (order) => `${order.firstName}@example.com`,
+    });
+
+    await assert.rejects(Order.synthesize({ count: 1 }).complete(), (error: unknown) => {
+      assert.ok(error instanceof StageError);
+      assert.strictEqual(error.attempts, 1);
+      assert.strictEqual(
+        (error.cause as Error).message,
+        "Circular dependency between fill fields: firstName -> email -> firstName",
+      );
+      return true;
+    });
+  });
+
+  it("should track references in conditional shapes", () => {
+    const genthetic = new Genthetic();
+    const Customer = genthetic.defineType<{ id: string }>({ name: "Customer" });
+    const Order = genthetic.defineType<Order>({ name: "Order" }).fill({
+      customerId: when((order) => order.status === "shipped", ref(Customer, { field: "id" })),
+    });
+
+    assert.deepStrictEqual([...Order.dependencies], [Customer]);
+  });
+
+  it("should leave out omitted values when resolving objects", async () => {
+    const result = await resolveObject({ a: OMIT, b: { c: () => OMIT, d: 1 }, e: [1, OMIT, 2] });
+    assert.deepStrictEqual(result, { b: { d: 1 }, e: [1, 2] });
+  });
+});
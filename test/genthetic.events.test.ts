@@ -0,0 +1,129 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Genthetic, type SynthesisEvent } from "../src/genthetic.js";
+
+interface Item {
+  batch: number;
+}
+
+describe("SynthesisJob events", () => {
+  it("should yield typed events for each batch and stage", async () => {
+    const genthetic = new Genthetic();
+    const job = genthetic
+      .defineType<Item>({ name: "Item", batchSize: 2 })
+      .fill({ batch: (_, context) => context.batchNumber })
+      .stage("Double", (batch) => batch.map((item) => ({ ...item, __hints: { seen: true } })))
+      .synthesize({ batches: 2, concurrency: 1 });
+
+    const events: SynthesisEvent<Item>[] = [];
+    for await (const event of job) events.push(event);
+
+    // Batches may overlap, but each batch's events are in order and "done" comes last
+    const batchEvents = (batchNumber: number) =>
+      events.flatMap((event) =>
+        "batchNumber" in event && event.batchNumber === batchNumber ? [event.type] : [],
+      );
+    for (const batchNumber of [0, 1]) {
+      assert.deepStrictEqual(batchEvents(batchNumber), [
+        "batch-started",
+        "stage-completed",
+        "stage-completed",
+        "batch-completed",
+      ]);
+    }
+    assert.strictEqual(events.length, 9);
+
+    const stage = events.find(
+      (event) => event.type === "stage-completed" && event.stageIndex === 1,
+    );
+    assert.strictEqual(stage?.type === "stage-completed" && stage.stageName, "Double");
+
+    const completed = events.find((event) => event.type === "batch-completed");
+    assert.deepStrictEqual(completed?.type === "batch-completed" && completed.items, [
+      { batch: 0 },
+      { batch: 0 },
+    ]);
+
+    // Each event has its own snapshot of the progress
+    assert.deepStrictEqual(
+      events.slice(0, 4).map((event) => [event.type, event.progress.currentBatch.stagesComplete]),
+      [
+        ["batch-started", 0],
+        ["stage-completed", 1],
+        ["stage-completed", 2],
+        ["batch-completed", 2],
+      ],
+    );
+
+    const done = events[events.length - 1];
+    assert.strictEqual(done.type === "done" && done.results.length, 4);
+    assert.strictEqual(done.progress.batchesComplete, 2);
+
+    // The iterator shares the job started by complete()
+    assert.strictEqual((await job.complete()).length, 4);
+  });
+
+  it("should report stage errors and retries", async () => {
+    let failures = 0;
+    const genthetic = new Genthetic();
+    const job = genthetic
+      .defineType<Item>({ name: "Item" })
+      .stage((batch) => {
+        if (failures++ === 0) throw new Error("Flaky");
+        return batch;
+      })
+      .synthesize({ retryDelayMs: 1 });
+
+    const events: SynthesisEvent<Item>[] = [];
+    for await (const event of job) events.push(event);
+
+    assert.deepStrictEqual(
+      events.map((event) => event.type),
+      ["batch-started", "error", "retry", "stage-completed", "batch-completed", "done"],
+    );
+    const error = events[1];
+    assert.match(error.type === "error" ? String(error.error) : "", /Flaky/);
+    const retry = events[2];
+    assert.deepStrictEqual(retry.type === "retry" && [retry.stageIndex, retry.attempt], [0, 1]);
+  });
+
+  it("should stream completed batches in order", async () => {
+    const genthetic = new Genthetic();
+    const job = genthetic
+      .defineType<Item>({ name: "Item", batchSize: 1 })
+      .stage(async (batch, context) => {
+        // Later batches finish first
+        await sleep((4 - context.batchNumber) * 5);
+        return batch.map(() => ({ batch: context.batchNumber }));
+      })
+      .synthesize({ batches: 4 });
+
+    const batches: Item[][] = [];
+    for await (const batch of job.batches()) batches.push(batch);
+
+    assert.deepStrictEqual(batches, [
+      [{ batch: 0 }],
+      [{ batch: 1 }],
+      [{ batch: 2 }],
+      [{ batch: 3 }],
+    ]);
+  });
+
+  it("should throw the job's error from iterators", async () => {
+    const genthetic = new Genthetic();
+    const job = genthetic
+      .defineType<Item>({ name: "Item", batchSize: 1 })
+      .stage((batch, context) => {
+        if (context.batchNumber === 1) throw new Error("Broken");
+        return batch.map(() => ({ batch: context.batchNumber }));
+      })
+      .synthesize({ batches: 2, maxRetries: 0 });
+
+    const batches: Item[][] = [];
+    await assert.rejects(async () => {
+      for await (const batch of job.batches()) batches.push(batch);
+    }, /Broken/);
+    assert.deepStrictEqual(batches, [[{ batch: 0 }]]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic, StageError, type SynthesisEvent } from "../src/genthetic.js";
+
+interface Item {
+  batch?: number;
+  done?: boolean;
+}
+
+describe("Failed batches", () => {
+  // A type whose second stage fails for batch 1 the first `failuresLeft` times it runs
+  const defineType = (failuresLeft: number) => {
+    const runs = { first: 0, second: 0 };
+    const type = new Genthetic()
+      .defineType<Item>({ name: "Item", batchSize: 2 })
+      .stage("number", (batch, context) => {
+        runs.first++;
+        return batch.map(() => ({ batch: context.batchNumber }));
+      })
+      .stage(
+        "finish",
+        (batch, context) => {
+          runs.second++;
+          if (context.batchNumber === 1 && failuresLeft-- > 0) throw new Error("Model overloaded");
+          return batch.map((item) => ({ ...item, done: true }));
+        },
+        { retry: { maxAttempts: 1 } },
+      );
+    return { type, runs };
+  };
+
+  it("should reject complete() by default", async () => {
+    const { type } = defineType(1);
+    await assert.rejects(type.synthesize({ batches: 3 }).complete(), StageError);
+  });
+
+  it("should skip failed batches and record them", async () => {
+    const { type } = defineType(1);
+    const job = type.synthesize({ batches: 3, failureMode: "skip", logging: "none" });
+
+    const events: SynthesisEvent<Item>[] = [];
+    for await (const event of job) events.push(event);
+
+    const done = events[events.length - 1];
+    assert.deepStrictEqual(
+      done.type === "done" && done.results.map((item) => item.batch),
+      [0, 0, 2, 2],
+    );
+    assert.ok(events.some((event) => event.type === "batch-failed" && event.batchNumber === 1));
+
+    assert.strictEqual(job.failures.length, 1);
+    const [failure] = job.failures;
+    assert.strictEqual(failure.batchNumber, 1);
+    assert.strictEqual(failure.stageIndex, 1);
+    assert.deepStrictEqual(failure.partialData, [{ batch: 1 }, { batch: 1 }]);
+    assert.ok(failure.error instanceof StageError);
+    assert.strictEqual(failure.error.stageName, "finish");
+
+    await assert.rejects(job.retryFailed(), /requires failureMode "quarantine"/);
+  });
+
+  it("should retry quarantined batches from the stage that failed", async () => {
+    const { type, runs } = defineType(2);
+    const job = type.synthesize({ batches: 3, failureMode: "quarantine", logging: "none" });
+
+    await assert.rejects(job.retryFailed(), /after the job completes/);
+    assert.strictEqual((await job.complete()).length, 4);
+
+    // The batch fails again and stays quarantined
+    assert.strictEqual((await job.retryFailed()).length, 4);
+    assert.strictEqual(job.failures.length, 1);
+
+    const results = await job.retryFailed();
+    assert.deepStrictEqual(
+      results.map((item) => [item.batch, item.done]),
+      [
+        [0, true],
+        [0, true],
+        [1, true],
+        [1, true],
+        [2, true],
+        [2, true],
+      ],
+    );
+    assert.deepStrictEqual(job.failures, []);
+    assert.deepStrictEqual(runs, { first: 3, second: 5 });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic, type WithHints } from "../src/genthetic.js";
+
+interface Movie {
+  id: number;
+  title: string;
+  genre: string;
+}
+
+describe("Fill stages", () => {
+  it("should keep fields and hints set by earlier stages", async () => {
+    const Movie = new Genthetic()
+      .defineType<Movie>({ name: "Movie" })
+      .fill({ id: 1, genre: "drama", __hints: { tone: "formal" } })
+      .stage((batch) => batch.map((movie) => ({ ...movie, title: "Heat" })))
+      .fill({ genre: "thriller", __hints: { length: "short" } })
+      .stage((batch) => {
+        assert.deepStrictEqual((batch[0] as WithHints<Movie>).__hints, {
+          tone: "formal",
+          length: "short",
+        });
+        return batch;
+      });
+
+    const movies = await Movie.synthesize({ count: 1 }).complete();
+    assert.deepStrictEqual(movies, [{ id: 1, title: "Heat", genre: "thriller" }]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "genkit";
+import { Genthetic } from "../src/genthetic.js";
+
+interface Movie {
+  genre: string;
+  title: string;
+  year: number;
+  slug: string;
+  synopsis: string;
+}
+
+// No Genkit instance is configured, so any model call would fail
+function defineMovie() {
+  return new Genthetic()
+    .defineType<Movie>({
+      name: "Movie",
+      schema: z.object({
+        genre: z.string(),
+        title: z.string(),
+        year: z.number(),
+        slug: z.string(),
+        synopsis: z.string(),
+      }),
+    })
+    .fill({ genre: "Drama", __hints: { tone: "bleak" } } as any)
+    .generate({
+      fields: ["title", "year"],
+      instructions: "Titles should be one word.",
+      model: "gemini-2.5-flash",
+    })
+    .stage("slugs", (batch) => batch.map((movie) => ({ ...movie, slug: `movie-${movie.title}` })))
+    .generateField("synopsis", { dependsOn: ["title"], temperature: 0.5 });
+}
+
+describe("Preview", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-preview-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should return the requests generate stages would send without calling the model", async () => {
+    const Movie = defineMovie();
+    const { requests, items } = await Movie.preview({ batchSize: 2 });
+
+    assert.deepStrictEqual(
+      requests.map(({ stageIndex, stageName, model }) => [stageIndex, stageName, model]),
+      [
+        [1, undefined, "googleai/gemini-2.5-flash"],
+        [3, "synopsis", "default"],
+        [3, "synopsis", "default"],
+      ],
+    );
+
+    const [batch, field] = requests;
+    const prompt = batch.messages[0].content[0].text ?? "";
+    assert.ok(prompt.includes("generate 2 objects"));
+    assert.ok(prompt.includes("Titles should be one word."));
+    assert.ok(prompt.includes('"tone": "bleak"'));
+    // The output schema only includes the requested fields
+    assert.deepStrictEqual(Object.keys(batch.jsonSchema.items.properties), ["title", "year"]);
+
+    assert.deepStrictEqual(field.config, { seed: undefined, temperature: 0.5 });
+    assert.deepStrictEqual(Object.keys(field.jsonSchema.properties), ["synopsis"]);
+    assert.ok(!field.messages[0].content[0].text?.includes("Drama"));
+
+    // Later stages run on mock data in place of model responses
+    assert.strictEqual(items.length, 2);
+    for (const item of items) {
+      assert.strictEqual(item.genre, "Drama");
+      assert.strictEqual(item.slug, `movie-${item.title}`);
+      assert.strictEqual(typeof item.synopsis, "string");
+    }
+  });
+
+  it("should not write output files in dry runs", async () => {
+    const outFile = join(dir, "movies.json");
+    const job = defineMovie().synthesize({ count: 3, outFile, dryRun: true });
+
+    const requests = [];
+    for await (const event of job) {
+      if (event.type === "request") requests.push(event);
+    }
+    assert.strictEqual(requests.length, 1 + 3);
+    assert.strictEqual((await job.complete()).length, 3);
+    assert.ok(!existsSync(outFile));
+  });
+});
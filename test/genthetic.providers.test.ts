@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { genkit, z } from "genkit";
+import { Genthetic } from "../src/genthetic.js";
+
+// Create a Genkit instance with a fake model that returns one object per requested item
+function createTestGenkit(requests: any[] = []) {
+  const ai = genkit({});
+  ai.defineModel({ name: "test/echo" }, async (request) => {
+    requests.push(request);
+    const text = request.messages[0].content[0].text || "";
+    const count = Number(text.match(/generate (\d+) objects/)?.[1] || 1);
+    const output = Array.from({ length: count }, (_, i) => ({ name: `Generated ${i}` }));
+    return { message: { role: "model", content: [{ text: JSON.stringify(output) }] } };
+  });
+  return ai;
+}
+
+describe("Genthetic model providers", () => {
+  it("should route generate stages through an injected Genkit instance", async () => {
+    const requests: any[] = [];
+    const genthetic = new Genthetic({ ai: createTestGenkit(requests), defaultModel: "test/echo" });
+    const type = genthetic
+      .defineType<{ id: number; name: string }>({
+        name: "Person",
+        schema: z.object({ id: z.number(), name: z.string() }),
+        batchSize: 2,
+      })
+      .fill({ id: (_, context) => context.batchNumber })
+      .generate({ fields: ["name"] });
+
+    const results = await type.synthesize({ count: 4 }).complete();
+
+    assert.strictEqual(requests.length, 2);
+    assert.deepStrictEqual(results, [
+      { id: 0, name: "Generated 0" },
+      { id: 0, name: "Generated 1" },
+      { id: 1, name: "Generated 0" },
+      { id: 1, name: "Generated 1" },
+    ]);
+  });
+
+  it("should prefer the model specified on the generate stage", async () => {
+    const ai = createTestGenkit();
+    const used: string[] = [];
+    ai.defineModel({ name: "test/other" }, async () => {
+      used.push("test/other");
+      return { message: { role: "model", content: [{ text: '[{"name":"Other"}]' }] } };
+    });
+
+    const genthetic = new Genthetic({ ai, defaultModel: "test/echo" });
+    const type = genthetic
+      .defineType<{ name: string }>({ name: "Named", schema: z.object({ name: z.string() }) })
+      .generate({ model: "test/other" });
+
+    const results = await type.synthesize({ batchSize: 1 }).complete();
+
+    assert.deepStrictEqual(used, ["test/other"]);
+    assert.deepStrictEqual(results, [{ name: "Other" }]);
+  });
+
+  it("should lazily initialize the Genkit instance on the first generate stage", async () => {
+    let initialized = 0;
+    const genthetic = new Genthetic({
+      ai: async () => {
+        initialized++;
+        return createTestGenkit();
+      },
+      defaultModel: "test/echo",
+    });
+
+    const filled = genthetic.defineType<{ name: string }>({ name: "Filled" }).fill({ name: "x" });
+    await filled.synthesize({ count: 2 }).complete();
+    assert.strictEqual(initialized, 0, "Non-generate pipelines should not initialize a provider");
+
+    const generated = genthetic
+      .defineType<{ name: string }>({ name: "Generated", schema: z.object({ name: z.string() }) })
+      .generate();
+    await generated.synthesize({ batches: 3, batchSize: 1 }).complete();
+    assert.strictEqual(initialized, 1, "The provider should only be created once");
+  });
+});
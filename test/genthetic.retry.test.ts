@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic, StageError } from "../src/genthetic.js";
+
+interface Item {
+  id?: number;
+  name?: string;
+}
+
+describe("Stage retries", () => {
+  it("should retry only the failed stage", async () => {
+    let fillRuns = 0;
+    let stageRuns = 0;
+    const type = new Genthetic()
+      .defineType<Item>({ name: "Item" })
+      .stage((batch) => {
+        fillRuns++;
+        return batch.map((_, index) => ({ id: index }));
+      })
+      .stage((batch) => {
+        if (++stageRuns < 3) throw new Error("Service unavailable");
+        return batch.map((item) => ({ ...item, name: "Ada" }));
+      });
+
+    const results = await type.synthesize({ count: 2, retryDelayMs: 1 }).complete();
+
+    assert.deepStrictEqual(results, [
+      { id: 0, name: "Ada" },
+      { id: 1, name: "Ada" },
+    ]);
+    assert.strictEqual(fillRuns, 1, "Earlier stages should not run again");
+    assert.strictEqual(stageRuns, 3);
+  });
+
+  it("should fail fast on errors that can't be fixed by retrying", async () => {
+    let runs = 0;
+    const type = new Genthetic().defineType<Item>({ name: "Item" }).stage("broken", (batch) => {
+      runs++;
+      return (batch as any).mapp(() => ({}));
+    });
+
+    await assert.rejects(type.synthesize({ retryDelayMs: 1 }).complete(), (error: unknown) => {
+      assert.ok(error instanceof StageError);
+      assert.strictEqual(error.batchNumber, 0);
+      assert.strictEqual(error.stageIndex, 0);
+      assert.strictEqual(error.stageName, "broken");
+      assert.strictEqual(error.attempts, 1);
+      assert.ok(error.cause instanceof TypeError);
+      assert.match(error.message, /^Batch 1, stage "broken" failed after 1 attempt\(s\): /);
+      return true;
+    });
+    assert.strictEqual(runs, 1);
+  });
+
+  it("should follow a stage's retry policy and collect the error of every attempt", async () => {
+    let runs = 0;
+    const type = new Genthetic()
+      .defineType<Item>({ name: "Item" })
+      .fill({ id: 1 })
+      .stage(
+        () => {
+          throw new Error(`Attempt ${++runs} failed`);
+        },
+        { retry: { maxAttempts: 2, retryable: (error) => /failed/.test(String(error)) } },
+      );
+
+    // The stage's policy overrides the job's maxRetries
+    await assert.rejects(
+      type.synthesize({ maxRetries: 5, retryDelayMs: 1 }).complete(),
+      (error: unknown) => {
+        assert.ok(error instanceof StageError);
+        assert.strictEqual(error.stageIndex, 1);
+        assert.strictEqual(error.stageName, undefined);
+        assert.deepStrictEqual(
+          error.errors.map((cause) => cause.message),
+          ["Attempt 1 failed", "Attempt 2 failed"],
+        );
+        assert.match(error.message, /^Batch 1, stage 2 failed after 2 attempt\(s\): Attempt 2/);
+        return true;
+      },
+    );
+    assert.strictEqual(runs, 2);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { setTimeout as sleep } from "node:timers/promises";
+import { genkit, z } from "genkit";
+import { Faker, en } from "@faker-js/faker";
+import { Genthetic } from "../src/genthetic.js";
+
+interface Reading {
+  value: number;
+  label: string;
+  noise: number;
+}
+
+function defineType(genthetic: Genthetic) {
+  return genthetic
+    .defineType<Reading>({ name: "Reading", batchSize: 4 })
+    .fill({
+      value: async (_, context) => {
+        // Random delays change the order in which items resolve
+        await sleep(Math.random() * 5);
+        return context.random();
+      },
+      label: (_, context) => context.faker.word.noun(),
+    })
+    .stage(async (batch, context) => {
+      await sleep(Math.random() * 5);
+      return batch.map((item) => ({ ...item, noise: context.random() }));
+    });
+}
+
+const faker = (seed: number) => new Faker({ locale: en, seed });
+
+describe("Genthetic seeded runs", () => {
+  it("should produce identical output for the same seed regardless of concurrency", async () => {
+    const genthetic = new Genthetic();
+    const first = await defineType(genthetic)
+      .synthesize({ count: 20, seed: 42, faker, concurrency: 5 })
+      .complete();
+    const second = await defineType(genthetic)
+      .synthesize({ count: 20, seed: 42, faker, concurrency: 1 })
+      .complete();
+
+    assert.strictEqual(first.length, 20);
+    assert.deepStrictEqual(first, second);
+
+    // Items within a batch get different random values
+    assert.notStrictEqual(first[0].value, first[1].value);
+  });
+
+  it("should produce different output for different seeds", async () => {
+    const genthetic = new Genthetic();
+    const first = await defineType(genthetic).synthesize({ count: 4, seed: 1, faker }).complete();
+    const second = await defineType(genthetic).synthesize({ count: 4, seed: 2, faker }).complete();
+
+    assert.notDeepStrictEqual(first, second);
+  });
+
+  it("should pass derived seeds and temperature to the model", async () => {
+    const configs: any[] = [];
+    const ai = genkit({});
+    ai.defineModel({ name: "test/model" }, async (request) => {
+      configs.push(request.config);
+      return { message: { role: "model", content: [{ text: '[{"name":"A"}]' }] } };
+    });
+
+    const run = () =>
+      new Genthetic({ ai, defaultModel: "test/model" })
+        .defineType({ name: "Named", schema: z.object({ name: z.string() }), batchSize: 1 })
+        .generate({ temperature: 0.5 })
+        .synthesize({ batches: 2, seed: 7, concurrency: 1 })
+        .complete();
+
+    await run();
+    await run();
+
+    assert.strictEqual(configs.length, 4);
+    assert.ok(configs.every((config) => config.temperature === 0.5));
+    assert.strictEqual(typeof configs[0].seed, "number");
+    assert.notStrictEqual(configs[0].seed, configs[1].seed, "Each batch gets its own seed");
+    assert.deepStrictEqual(configs.slice(0, 2), configs.slice(2), "Seeds are reproducible");
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { genkit, z } from "genkit";
+import { Genthetic, StageError } from "../src/genthetic.js";
+import { UniqueIndex } from "../src/unique.js";
+
+interface Movie {
+  title: string;
+}
+
+// A model that returns the same titles for every first request, and new titles when asked for
+// items unique from earlier ones
+function createGenthetic(firstTitles: string[], regenerate = true) {
+  const requests: { count: number; existing?: unknown[] }[] = [];
+  let running = 0;
+  const stats = { maxRunning: 0 };
+  let counter = 0;
+
+  const ai = genkit({});
+  ai.defineModel({ name: "test/titles" }, async (request) => {
+    const text = request.messages.map((message) => message.content[0].text).join("\n");
+    const count = Number(/generate (?:an additional )?(\d+)/.exec(text)?.[1]);
+    const existing =
+      request.messages.length > 1 ? JSON.parse(request.messages[1].content[0].text!) : undefined;
+    requests.push({ count, existing });
+
+    running++;
+    stats.maxRunning = Math.max(stats.maxRunning, running);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    running--;
+
+    const titles =
+      existing && regenerate
+        ? Array.from({ length: count }, () => `Movie ${++counter}`)
+        : firstTitles.slice(0, count);
+    const output = titles.map((title) => ({ title }));
+    return { message: { role: "model", content: [{ text: JSON.stringify(output) }] } };
+  });
+
+  const genthetic = new Genthetic({ ai, defaultModel: "test/titles" });
+  const type = genthetic.defineType<Movie>({
+    name: "Movie",
+    schema: z.object({ title: z.string() }),
+    batchSize: 2,
+  });
+  return { type, requests, stats };
+}
+
+describe("Unique keys", () => {
+  it("should regenerate colliding items while batches run concurrently", async () => {
+    const { type, requests, stats } = createGenthetic(["Heat", " heat"]);
+    type.generate({ unique: { keys: ["title"], sampleSize: 1 } });
+    assert.strictEqual(type.stages[0].cacheOutput, false);
+
+    const movies = await type.synthesize({ batches: 3, concurrency: 3 }).complete();
+
+    const titles = movies.map((movie) => movie.title.trim().toLowerCase());
+    assert.strictEqual(movies.length, 6);
+    assert.strictEqual(new Set(titles).size, 6, `Duplicate titles: ${titles.join(", ")}`);
+    assert.ok(stats.maxRunning > 1, "Batches should run concurrently");
+
+    // Only colliding items are regenerated, showing the model a bounded sample of used titles
+    const regenerations = requests.filter((request) => request.existing);
+    assert.deepStrictEqual(
+      regenerations.map((request) => request.count),
+      [1, 2, 2],
+    );
+    for (const { existing, count } of regenerations) {
+      assert.ok(existing!.length <= 1 + count);
+    }
+  });
+
+  it("should fail the stage when collisions can't be resolved", async () => {
+    const { type } = createGenthetic(["Heat", "Heat"], false);
+    type.generate({ unique: { keys: ["title"], maxRegenerations: 1 } });
+
+    await assert.rejects(
+      type.synthesize({ batches: 1, maxRetries: 0 }).complete(),
+      (error: unknown) => {
+        assert.ok(error instanceof StageError);
+        assert.match(
+          (error.cause as Error).message,
+          /^Could not generate unique title for 1 item\(s\) after 1 regeneration\(s\), e\.g\. \{"title":"Heat"\}/,
+        );
+        return true;
+      },
+    );
+  });
+
+  it("should free the values of batches that aren't output", async () => {
+    const { type, requests } = createGenthetic(["Heat", "Ronin"]);
+    type.generate({ unique: { keys: ["title"] } }).stage(
+      (batch, context) => {
+        if (context.batchNumber === 0) throw new Error("Model overloaded");
+        return batch;
+      },
+      { retry: { maxAttempts: 1 } },
+    );
+
+    const job = type.synthesize({ batches: 2, concurrency: 1, failureMode: "skip" });
+    const movies = await job.complete();
+
+    // The failed batch's titles are used by the next batch without regenerating them
+    assert.deepStrictEqual(
+      movies.map((movie) => movie.title),
+      ["Heat", "Ronin"],
+    );
+    assert.ok(requests.every((request) => !request.existing));
+    assert.strictEqual(job.failures.length, 1);
+  });
+
+  it("should compare key values ignoring case and whitespace", () => {
+    const index = new UniqueIndex(["title", "year"]);
+    assert.strictEqual(index.claim({ title: "The Matrix", year: 1999 }), true);
+    assert.strictEqual(index.claim({ title: " the  matrix", year: 1999 }), false);
+    assert.strictEqual(index.claim({ title: "The Matrix", year: 2021 }), true);
+    assert.strictEqual(index.size, 2);
+
+    index.release({ title: "THE MATRIX", year: 2021 });
+    assert.strictEqual(index.has({ title: "The Matrix", year: 2021 }), false);
+
+    // Releasing a batch keeps the values of its kept items and of other batches
+    index.claim({ title: "Heat", year: 1995 }, 1);
+    index.claim({ title: "Ronin", year: 1998 }, 1);
+    index.claim({ title: "Alien", year: 1979 }, 2);
+    index.releaseBatch(1, [{ title: "Ronin", year: 1998 }]);
+    assert.strictEqual(index.has({ title: "Heat", year: 1995 }), false);
+    assert.strictEqual(index.has({ title: "Ronin", year: 1998 }), true);
+    assert.strictEqual(index.has({ title: "Alien", year: 1979 }), true);
+
+    let calls = 0;
+    for (let i = 0; i < 10; i++) index.claim({ title: `Movie ${i}`, year: 2000 });
+    const sample = index.sample(3, () => (calls++ % 10) / 10);
+    assert.strictEqual(sample.length, 3);
+    assert.ok(sample.every((values) => Object.keys(values).join() === "title,year"));
+  });
+});
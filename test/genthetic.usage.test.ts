@@ -0,0 +1,156 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { genkit, z } from "genkit";
+import { Genthetic } from "../src/genthetic.js";
+import type { SynthesisJobProgress } from "../src/genthetic.js";
+
+// Create a Genkit instance with models that report fixed token usage for each call
+function createUsageGenkit() {
+  const ai = genkit({});
+  for (const [name, inputTokens, outputTokens] of [
+    ["test/batch", 100, 50],
+    ["test/field", 20, 30],
+  ] as const) {
+    ai.defineModel({ name }, async (request) => {
+      const count = request.messages[0].content[0].text?.match(/generate (\d+) objects/)?.[1];
+      const output = count
+        ? Array.from({ length: Number(count) }, (_, i) => ({ name: `Item ${i}` }))
+        : { summary: "Summary" };
+      return {
+        message: { role: "model", content: [{ text: JSON.stringify(output) }] },
+        usage: { inputTokens, outputTokens },
+      };
+    });
+  }
+  return ai;
+}
+
+function defineItem(genthetic: Genthetic) {
+  return genthetic
+    .defineType<{ name: string; summary: string }>({
+      name: "Item",
+      schema: z.object({ name: z.string(), summary: z.string() }),
+    })
+    .generate({ fields: ["name"], model: "test/batch" })
+    .generateField("summary", { model: "test/field" });
+}
+
+describe("Token usage", () => {
+  it("should report usage and estimated cost by stage, batch and model", async () => {
+    const genthetic = new Genthetic({
+      ai: createUsageGenkit(),
+      pricing: { batch: { input: 1, output: 2 }, "test/field": { input: 10, output: 10 } },
+    });
+
+    let progress: SynthesisJobProgress | undefined;
+    const job = defineItem(genthetic).synthesize({
+      batchSize: 2,
+      batches: 2,
+      onProgress: (update) => (progress = update),
+    });
+    await job.complete();
+
+    // Each batch makes one batch call and two field calls
+    const batchCost = (100 * 1 + 50 * 2) / 1e6;
+    const fieldCost = (20 * 10 + 30 * 10) / 1e6;
+    assert.deepStrictEqual(job.usage.byModel["test/batch"], {
+      requests: 2,
+      inputTokens: 200,
+      outputTokens: 100,
+      latencyMs: job.usage.byModel["test/batch"].latencyMs,
+      cost: 2 * batchCost,
+    });
+    assert.strictEqual(job.usage.byModel["test/field"].requests, 4);
+    assert.deepStrictEqual(
+      job.usage.byStage.map(({ requests, inputTokens }) => [requests, inputTokens]),
+      [
+        [2, 200],
+        [4, 80],
+      ],
+    );
+    assert.deepStrictEqual(
+      job.usage.byBatch.map(({ outputTokens }) => outputTokens),
+      [110, 110],
+    );
+    assert.strictEqual(job.usage.validation.requests, 0);
+    assert.strictEqual(job.usage.total.inputTokens + job.usage.total.outputTokens, 500);
+    assert.ok(Math.abs(job.usage.total.cost! - 2 * (batchCost + 2 * fieldCost)) < 1e-12);
+    assert.strictEqual(job.usage.budgetExceeded, false);
+
+    assert.strictEqual(progress?.usage.requests, 6);
+  });
+
+  it("should stop starting batches once the budget would be exceeded", async () => {
+    const genthetic = new Genthetic({ ai: createUsageGenkit() });
+    const batches: number[] = [];
+    const job = defineItem(genthetic).synthesize({
+      batchSize: 1,
+      batches: 5,
+      concurrency: 1,
+      // Each batch uses 200 tokens, so a third batch would take the job over the budget
+      budget: { maxTokens: 500 },
+      onBatch: (_, { batchNumber }) => batches.push(batchNumber),
+    });
+
+    const results = await job.complete();
+    assert.strictEqual(results.length, 2);
+    assert.deepStrictEqual(batches, [0, 1]);
+    assert.strictEqual(job.usage.budgetExceeded, true);
+    assert.strictEqual(job.usage.total.inputTokens + job.usage.total.outputTokens, 400);
+  });
+
+  it("should count running batches against the budget", async () => {
+    const genthetic = new Genthetic({ ai: createUsageGenkit() });
+    const job = defineItem(genthetic).synthesize({
+      batchSize: 1,
+      batches: 10,
+      concurrency: 5,
+      budget: { maxTokens: 500 },
+    });
+
+    // The first batch runs alone to estimate usage, then a second one fits in the budget
+    const results = await job.complete();
+    assert.strictEqual(results.length, 2);
+    assert.strictEqual(job.usage.budgetExceeded, true);
+    assert.strictEqual(job.usage.total.inputTokens + job.usage.total.outputTokens, 400);
+  });
+
+  it("should not retry quarantined batches once the budget is reached", async () => {
+    let attempts = 0;
+    const Item = defineItem(new Genthetic({ ai: createUsageGenkit() })).stage((batch, context) => {
+      if (context.batchNumber === 0) {
+        attempts++;
+        throw new Error("Model overloaded");
+      }
+      return batch;
+    });
+    const job = Item.synthesize({
+      batchSize: 1,
+      batches: 3,
+      concurrency: 1,
+      maxRetries: 0,
+      failureMode: "quarantine",
+      // Each batch uses 200 tokens, so the job stops after the first two
+      budget: { maxTokens: 500 },
+      logging: "none",
+    });
+
+    assert.strictEqual((await job.complete()).length, 1);
+    assert.strictEqual(job.usage.budgetExceeded, true);
+
+    assert.strictEqual((await job.retryFailed()).length, 1);
+    assert.strictEqual(attempts, 1);
+    assert.deepStrictEqual(
+      job.failures.map(({ batchNumber }) => batchNumber),
+      [0],
+    );
+  });
+
+  it("should require pricing for cost budgets", () => {
+    const Item = defineItem(new Genthetic({ ai: createUsageGenkit() }));
+    assert.throws(
+      () => Item.synthesize({ budget: { maxCost: 1 } }),
+      /"budget.maxCost" option requires a "pricing" table/,
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { genkit, z } from "genkit";
+import { Genthetic, StageError } from "../src/genthetic.js";
+
+interface Person {
+  id: number;
+  name: string;
+  age: number;
+}
+
+// Refinements can't be expressed in JSON schema, so only Zod validation catches them
+const PersonSchema = z.object({
+  id: z.number(),
+  name: z.string().refine((name) => name !== "Invalid", "Name must not be Invalid"),
+  age: z.number(),
+});
+
+// Create a Genkit instance whose model returns an invalid name until asked to repair it
+function createTestGenkit(prompts: string[], repairedName = "Repaired") {
+  const ai = genkit({});
+  ai.defineModel({ name: "test/model" }, async (request) => {
+    const text = request.messages[0].content[0].text || "";
+    prompts.push(text);
+    const output = text.includes("failed validation")
+      ? [{ id: Number(text.match(/"id": (\d+)/)?.[1]), name: repairedName, age: 42 }]
+      : [
+          { name: "Valid", age: 30 },
+          { name: "Invalid", age: 31 },
+        ];
+    return { message: { role: "model", content: [{ text: JSON.stringify(output) }] } };
+  });
+  return ai;
+}
+
+function defineType(genthetic: Genthetic) {
+  return genthetic
+    .defineType<Person>({ name: "Person", schema: PersonSchema, batchSize: 2 })
+    .fill({ id: (_, context) => context.batchNumber })
+    .generate({ fields: ["name", "age"] });
+}
+
+describe("Genthetic validation", () => {
+  it("should not validate unless enabled", async () => {
+    const genthetic = new Genthetic({ ai: createTestGenkit([]), defaultModel: "test/model" });
+    const results = await defineType(genthetic).synthesize().complete();
+
+    assert.strictEqual(results.length, 2);
+    assert.strictEqual(results[1].name, "Invalid");
+  });
+
+  it("should repair invalid items using the validation errors", async () => {
+    const prompts: string[] = [];
+    const genthetic = new Genthetic({ ai: createTestGenkit(prompts), defaultModel: "test/model" });
+    const job = defineType(genthetic).synthesize({ validate: true });
+    const results = await job.complete();
+
+    assert.deepStrictEqual(results, [
+      { id: 0, name: "Valid", age: 30 },
+      { id: 0, name: "Repaired", age: 42 },
+    ]);
+    assert.strictEqual(job.invalidItems.length, 0);
+
+    // Only the broken item is sent for repair along with its error
+    const repairPrompt = prompts[1];
+    assert.ok(repairPrompt.includes("`name`: Name must not be Invalid"));
+    assert.ok(repairPrompt.includes('"name": "Invalid"'));
+    assert.ok(!repairPrompt.includes('"name": "Valid"'));
+  });
+
+  it("should report unrecoverable items instead of returning them", async () => {
+    const prompts: string[] = [];
+    const genthetic = new Genthetic({
+      ai: createTestGenkit(prompts, "Invalid"),
+      defaultModel: "test/model",
+    });
+    const job = defineType(genthetic).synthesize({ batches: 2, validate: { repairAttempts: 3 } });
+    const results = await job.complete();
+
+    assert.deepStrictEqual(results, [
+      { id: 0, name: "Valid", age: 30 },
+      { id: 1, name: "Valid", age: 30 },
+    ]);
+    assert.strictEqual(prompts.length, 8, "Each batch makes 1 generate and 3 repair requests");
+    assert.deepStrictEqual(
+      job.invalidItems,
+      [0, 1].map((batchNumber) => ({
+        batchNumber,
+        item: { id: batchNumber, name: "Invalid", age: 42 },
+        errors: ["`name`: Name must not be Invalid"],
+      })),
+    );
+  });
+
+  it("should retry failed repairs like a stage", async () => {
+    let repairs = 0;
+    const ai = genkit({});
+    ai.defineModel({ name: "test/flaky" }, async (request) => {
+      const text = request.messages[0].content[0].text || "";
+      if (text.includes("failed validation") && repairs++ === 0) {
+        throw new Error("Service unavailable");
+      }
+      const output = text.includes("failed validation")
+        ? [{ id: 0, name: "Repaired", age: 42 }]
+        : [{ name: "Invalid", age: 31 }];
+      return { message: { role: "model", content: [{ text: JSON.stringify(output) }] } };
+    });
+    const type = new Genthetic({ ai, defaultModel: "test/flaky" })
+      .defineType<Person>({ name: "Person", schema: PersonSchema, batchSize: 1 })
+      .fill({ id: 0 })
+      .generate({ fields: ["name", "age"] });
+
+    const results = await type.synthesize({ validate: true, retryDelayMs: 1 }).complete();
+    assert.deepStrictEqual(results, [{ id: 0, name: "Repaired", age: 42 }]);
+    assert.strictEqual(repairs, 2);
+
+    // Once out of retries, the batch fails at validation, after the last stage
+    repairs = 0;
+    const job = type.synthesize({ validate: true, maxRetries: 0, failureMode: "skip" });
+    assert.deepStrictEqual(await job.complete(), []);
+    const [failure] = job.failures;
+    assert.ok(failure.error instanceof StageError);
+    assert.strictEqual(failure.error.stageName, "validate");
+    assert.strictEqual(failure.stageIndex, 2);
+    assert.strictEqual(failure.error.stageIndex, 2);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { z } from "genkit";
+import { Genthetic } from "../src/genthetic.js";
+import { mockSyntheticData } from "../src/mock.js";
+
+const schema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    email: { type: "string", format: "email" },
+    age: { type: "integer", minimum: 18, maximum: 80 },
+    status: { type: "string", enum: ["active", "inactive"] },
+    tags: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 3 },
+  },
+};
+
+describe("mockSyntheticData", () => {
+  it("should produce schema-conforming objects", () => {
+    const output = mockSyntheticData({ schema, count: 5 });
+
+    assert.strictEqual(output.length, 5);
+    for (const item of output) {
+      assert.strictEqual(typeof item.name, "string");
+      assert.match(item.email, /@example\.com$/);
+      assert.ok(Number.isInteger(item.age) && item.age >= 18 && item.age <= 80);
+      assert.ok(["active", "inactive"].includes(item.status));
+      assert.ok(item.tags.length >= 1 && item.tags.length <= 3);
+    }
+  });
+
+  it("should be deterministic for identical input", () => {
+    const data = [{ name: "Ann", __hints: { mood: "happy" } }, {}];
+    assert.deepStrictEqual(
+      mockSyntheticData({ schema, data }),
+      mockSyntheticData({ schema, data }),
+    );
+    assert.notDeepStrictEqual(
+      mockSyntheticData({ schema, data }),
+      mockSyntheticData({ schema, data }, { seed: 1 }),
+    );
+  });
+
+  it("should respect fields, seed data and hints", () => {
+    const output = mockSyntheticData({
+      schema,
+      data: [{ name: "Ann", __hints: { mood: "happy" } }, { name: "Bob" }],
+    });
+
+    // Fields supplied in seed data are not regenerated
+    assert.ok(output.every((item) => !("name" in item) && !("__hints" in item)));
+
+    // Different hints produce different values
+    const withHints = mockSyntheticData({ schema, data: [{ __hints: { mood: "sad" } }] });
+    const withoutHints = mockSyntheticData({ schema, data: [{}] });
+    assert.notDeepStrictEqual(withHints, withoutHints);
+
+    const fieldsOnly = mockSyntheticData({ schema, count: 2, fields: ["name", "age"] });
+    assert.deepStrictEqual(Object.keys(fieldsOnly[0]).sort(), ["age", "name"]);
+  });
+});
+
+describe("Genthetic mock mode", () => {
+  const run = async (concurrency: number) => {
+    const genthetic = new Genthetic({ mock: { seed: 42 } });
+    const type = genthetic
+      .defineType<{ id: number; name: string; email: string }>({
+        name: "Person",
+        schema: z.object({ id: z.number(), name: z.string(), email: z.string().email() }),
+        batchSize: 3,
+      })
+      .fill({ id: (_, context) => context.batchNumber })
+      .generate({ fields: ["name", "email"] });
+
+    const batches: number[] = [];
+    const results = await type
+      .synthesize({
+        count: 9,
+        concurrency,
+        onBatch: (_, { batchNumber }) => batches.push(batchNumber),
+      })
+      .complete();
+    return { results, batches };
+  };
+
+  it("should produce byte-identical output across runs", async () => {
+    const first = await run(5);
+    const second = await run(1);
+
+    assert.strictEqual(first.results.length, 9);
+    assert.deepStrictEqual(first.batches, [0, 1, 2]);
+    assert.strictEqual(JSON.stringify(first.results), JSON.stringify(second.results));
+  });
+
+  it("should continue generating unique values in unique mode", async () => {
+    const genthetic = new Genthetic({ mock: true });
+    const type = genthetic
+      .defineType({ name: "Person", schema: z.object({ name: z.string() }), batchSize: 2 })
+      .generate({ unique: true });
+
+    const results = await type.synthesize({ count: 6 }).complete();
+    const names = new Set(results.map((item: any) => item.name));
+    assert.strictEqual(names.size, 6);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { Genthetic } from "../src/genthetic.js";
+import { belongsTo, ref } from "../src/relations.js";
+
+interface User {
+  id: string;
+  name: string;
+  admin: boolean;
+}
+
+interface Order {
+  id: string;
+  userId: string;
+}
+
+interface OrderItem {
+  orderId: string;
+  product: string;
+}
+
+function defineTypes(genthetic: Genthetic) {
+  let userCount = 0;
+  let adminCount = 0;
+  const UserType = genthetic.defineType<User>({ name: "User", batchSize: 2 }).fill({
+    id: () => `user-${userCount++}`,
+    name: "User",
+    admin: () => adminCount++ === 0,
+  });
+
+  let orderCount = 0;
+  const OrderType = genthetic.defineType<Order>({ name: "Order", batchSize: 3 }).fill({
+    id: () => `order-${orderCount++}`,
+    userId: belongsTo(UserType),
+  });
+
+  const OrderItemType = genthetic.defineType<OrderItem>({ name: "OrderItem" }).fill({
+    orderId: belongsTo(OrderType, { cardinality: { min: 1, max: 3 } }),
+    product: "Widget",
+  });
+
+  return { UserType, OrderType, OrderItemType };
+}
+
+describe("Type relationships", () => {
+  it("should track referenced types as dependencies", () => {
+    const { UserType, OrderType, OrderItemType } = defineTypes(new Genthetic());
+
+    assert.deepStrictEqual([...OrderType.dependencies], [UserType]);
+    assert.deepStrictEqual([...OrderItemType.dependencies], [OrderType]);
+    assert.strictEqual(UserType.dependencies.size, 0);
+  });
+
+  it("should synthesize types in dependency order with referential integrity", async () => {
+    const genthetic = new Genthetic();
+    const { UserType, OrderType, OrderItemType } = defineTypes(genthetic);
+
+    // Listed out of order; dependencies are synthesized first
+    const { User, Order, OrderItem } = await genthetic.synthesizeAll([
+      [OrderItemType, { count: 12 }],
+      [OrderType, { count: 6 }],
+      [UserType, { count: 4 }],
+    ]);
+
+    assert.strictEqual(User.length, 4);
+    assert.strictEqual(Order.length, 6);
+    assert.strictEqual(OrderItem.length, 12);
+
+    const userIds = new Set(User.map((user) => user.id));
+    assert.ok(Order.every((order) => userIds.has(order.userId)));
+
+    // Every order has between 1 and 3 items
+    const itemsPerOrder = new Map<string, number>();
+    for (const item of OrderItem) {
+      itemsPerOrder.set(item.orderId, (itemsPerOrder.get(item.orderId) ?? 0) + 1);
+    }
+    assert.strictEqual(itemsPerOrder.size, 6);
+    assert.ok([...itemsPerOrder.values()].every((count) => count >= 1 && count <= 3));
+  });
+
+  it("should synthesize unlisted dependencies with default options", async () => {
+    const genthetic = new Genthetic();
+    const { OrderType } = defineTypes(genthetic);
+
+    const results = await genthetic.synthesizeAll([OrderType], { count: 3 });
+
+    assert.deepStrictEqual(Object.keys(results), ["User", "Order"]);
+    assert.strictEqual(results.User.length, 3);
+  });
+
+  it("should support weighted picks and whole-record references", async () => {
+    const genthetic = new Genthetic();
+    const { UserType } = defineTypes(genthetic);
+    const SessionType = genthetic.defineType<{ user: User }>({ name: "Session" }).fill({
+      user: ref(UserType, { weight: (user) => (user.admin ? 1 : 0) }),
+    });
+
+    const { User, Session } = await genthetic.synthesizeAll([
+      [UserType, { count: 4 }],
+      [SessionType, { count: 5 }],
+    ]);
+
+    const admin = User.find((user) => user.admin);
+    assert.ok(Session.every((session) => session.user.id === admin?.id));
+  });
+
+  it("should assign cardinality references by item index", async () => {
+    const genthetic = new Genthetic();
+    const { OrderType } = defineTypes(genthetic);
+    const orders = Array.from({ length: 4 }, (_, i) => ({ id: `order-${i}`, userId: "user-0" }));
+
+    let failed = false;
+    const OrderItemType = genthetic
+      .defineType<OrderItem>({ name: "OrderItem", batchSize: 2 })
+      .stage(async (batch, context) => {
+        // Finish later batches first
+        await new Promise((resolve) => setTimeout(resolve, (4 - context.batchNumber) * 5));
+        return batch;
+      })
+      .fill({
+        orderId: belongsTo(OrderType, { cardinality: 2 }),
+        product: () => {
+          // Fail the first attempt after the reference was resolved
+          if (!failed) {
+            failed = true;
+            throw new Error("Service unavailable");
+          }
+          return "Widget";
+        },
+      });
+
+    const options = { count: 8, seed: 5, references: new Map([[OrderType, orders]]) };
+    const concurrent = await OrderItemType.synthesize({
+      ...options,
+      concurrency: 4,
+      retryDelayMs: 1,
+    }).complete();
+    const serial = await OrderItemType.synthesize(options).complete();
+
+    assert.deepStrictEqual(concurrent, serial);
+    const counts = new Map<string, number>();
+    for (const { orderId } of concurrent) counts.set(orderId, (counts.get(orderId) ?? 0) + 1);
+    assert.deepStrictEqual([...counts.values()], [2, 2, 2, 2]);
+  });
+
+  it("should fail when references are unavailable or impossible", async () => {
+    const genthetic = new Genthetic();
+    const { UserType, OrderType, OrderItemType } = defineTypes(genthetic);
+
+    await assert.rejects(
+      OrderType.synthesize({ maxRetries: 0 }).complete(),
+      /Cannot resolve reference to "User"/,
+    );
+
+    await assert.rejects(
+      genthetic.synthesizeAll([
+        [UserType, { count: 1 }],
+        [OrderType, { count: 2 }],
+        [OrderItemType, { count: 10, maxRetries: 0 }],
+      ]),
+      /between 1 and 3 times each with 10 items/,
+    );
+  });
+
+  it("should detect circular dependencies", async () => {
+    const genthetic = new Genthetic();
+    const A = genthetic.defineType({ name: "A" });
+    const B = genthetic.defineType<{ a: object }>({ name: "B" }).fill({ a: ref(A) });
+    A.dependsOn(B);
+
+    await assert.rejects(genthetic.synthesizeAll([A]), /Circular type dependency: A -> B -> A/);
+  });
+});
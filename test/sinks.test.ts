@@ -0,0 +1,155 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "genkit";
+import { Genthetic } from "../src/genthetic.js";
+import { sqliteSink, type Sink, type SqliteDatabase } from "../src/sinks.js";
+
+interface User {
+  id: number;
+  name: string;
+  admin: boolean;
+  address: { city: string };
+  score?: number;
+}
+
+const UserSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  admin: z.boolean(),
+  address: z.object({ city: z.string() }),
+  score: z.number().optional(),
+});
+
+/**
+ * Records the statements a sink runs, standing in for better-sqlite3 or node:sqlite.
+ */
+function fakeDatabase(failOn?: (params: any[]) => boolean) {
+  const log: string[] = [];
+  const database: SqliteDatabase = {
+    exec: (sql) => log.push(sql),
+    prepare: (sql) => ({
+      run: (...params) => {
+        if (failOn?.(params)) throw new Error("Constraint failed");
+        log.push(`${sql} ${JSON.stringify(params)}`);
+      },
+    }),
+  };
+  return { database, log };
+}
+
+function defineUserType(genthetic: Genthetic) {
+  let id = 0;
+  return genthetic.defineType<User>({ name: "User", schema: UserSchema, batchSize: 2 }).fill({
+    id: () => ++id,
+    name: (_, context) => `O'Neil ${context.batchNumber}`,
+    admin: (_, context) => context.batchNumber === 1,
+    address: { city: "Oslo" },
+  });
+}
+
+describe("Sinks", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-sinks-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create a table from the schema and insert each batch in a transaction", async () => {
+    const { database, log } = fakeDatabase();
+    const genthetic = new Genthetic();
+    await defineUserType(genthetic)
+      .synthesize({ count: 3, concurrency: 1, sink: sqliteSink({ database, replace: true }) })
+      .complete();
+
+    const insert =
+      'INSERT INTO "User" ("id", "name", "admin", "address", "score") VALUES (?, ?, ?, ?, ?)';
+    assert.deepStrictEqual(log, [
+      'DROP TABLE IF EXISTS "User";\nCREATE TABLE IF NOT EXISTS "User" ("id" INTEGER NOT NULL, "name" TEXT NOT NULL, "admin" INTEGER NOT NULL, "address" TEXT NOT NULL, "score" REAL);',
+      "BEGIN",
+      `${insert} [1,"O'Neil 0",0,"{\\"city\\":\\"Oslo\\"}",null]`,
+      `${insert} [2,"O'Neil 0",0,"{\\"city\\":\\"Oslo\\"}",null]`,
+      "COMMIT",
+      "BEGIN",
+      `${insert} [3,"O'Neil 1",1,"{\\"city\\":\\"Oslo\\"}",null]`,
+      "COMMIT",
+    ]);
+  });
+
+  it("should roll back a batch that fails to insert", async () => {
+    const { database, log } = fakeDatabase((params) => params[0] === 2);
+    const genthetic = new Genthetic();
+
+    await assert.rejects(
+      defineUserType(genthetic)
+        .synthesize({ count: 2, sink: sqliteSink({ database }) })
+        .complete(),
+      /Constraint failed/,
+    );
+    assert.deepStrictEqual(log.slice(1), [
+      "BEGIN",
+      'INSERT INTO "User" ("id", "name", "admin", "address", "score") VALUES (?, ?, ?, ?, ?) [1,"O\'Neil 0",0,"{\\"city\\":\\"Oslo\\"}",null]',
+      "ROLLBACK",
+    ]);
+  });
+
+  it("should write a seed file for several types", async () => {
+    const seedFile = join(dir, "seed.sql");
+    const genthetic = new Genthetic();
+    const UserType = defineUserType(genthetic);
+    const TagType = genthetic.defineType<{ label: string; weight: number }>({ name: "Tag" }).fill({
+      label: "new",
+      weight: 0.5,
+    });
+
+    await genthetic.synthesizeAll([UserType, [TagType, { count: 1 }]], {
+      count: 1,
+      sink: sqliteSink({ seedFile, table: (type) => type.name.toLowerCase() }),
+    });
+
+    assert.strictEqual(
+      readFileSync(seedFile, "utf8"),
+      [
+        'CREATE TABLE IF NOT EXISTS "user" ("id" INTEGER NOT NULL, "name" TEXT NOT NULL, "admin" INTEGER NOT NULL, "address" TEXT NOT NULL, "score" REAL);',
+        `INSERT INTO "user" ("id", "name", "admin", "address", "score") VALUES (1, 'O''Neil 0', 0, '{"city":"Oslo"}', NULL);`,
+        'CREATE TABLE IF NOT EXISTS "tag" ("label" TEXT, "weight" REAL);',
+        `INSERT INTO "tag" ("label", "weight") VALUES ('new', 0.5);`,
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should pass completed batches to custom sinks in order", async () => {
+    const batches: string[][] = [];
+    const events: string[] = [];
+    const sink: Sink = {
+      open: ({ type }) => {
+        events.push(`open ${type.name}`);
+        return {
+          write: async (items) => void batches.push(items.map((item) => item.name)),
+          close: () => void events.push("close"),
+        };
+      },
+    };
+
+    const genthetic = new Genthetic();
+    await defineUserType(genthetic).synthesize({ count: 5, sink }).complete();
+
+    assert.deepStrictEqual(batches, [
+      ["O'Neil 0", "O'Neil 0"],
+      ["O'Neil 1", "O'Neil 1"],
+      ["O'Neil 2"],
+    ]);
+    assert.deepStrictEqual(events, ["open User", "close"]);
+  });
+
+  it("should require a database or seed file", () => {
+    assert.throws(() => sqliteSink({}), /requires a "database", a "seedFile" or both/);
+  });
+});
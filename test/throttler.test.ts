@@ -1,7 +1,8 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
 import { setTimeout as sleep } from "node:timers/promises";
-import { Throttler } from "../src/throttler.js";
+import { ResponseCacheMissError } from "../src/cache.js";
+import { Throttler, isRateLimitError, isRetryableError, retryAfterMs } from "../src/throttler.js";
 
 describe("Throttler", () => {
   let throttler: Throttler;
@@ -224,4 +225,208 @@ describe("Throttler", () => {
       testThrottler.dispose();
     }
   });
+
+  it("should reject queued tasks and stop retrying when aborted", async () => {
+    const controller = new AbortController();
+    const abortableThrottler = new Throttler({
+      concurrency: 1,
+      maxRetries: 5,
+      baseRetryDelayMs: 10,
+      signal: controller.signal
+    });
+    let attempts = 0;
+
+    try {
+      // The running task keeps failing and would be retried if not aborted
+      const running = abortableThrottler.run(async () => {
+        attempts++;
+        await sleep(5);
+        throw new Error("Task failed");
+      });
+      const queued = abortableThrottler.run(async () => "never runs");
+
+      await sleep(1);
+      controller.abort(new Error("Aborted"));
+
+      await assert.rejects(queued, /Aborted/);
+      await assert.rejects(running, /Task failed/);
+      await assert.rejects(abortableThrottler.run(async () => "late"), /Aborted/);
+
+      assert.strictEqual(attempts, 1, "Should not retry after abort");
+      assert.strictEqual(abortableThrottler.queueLength, 0, "Queue should be empty");
+    } finally {
+      abortableThrottler.dispose();
+    }
+  });
+
+  it("should limit the number of tasks started per minute", async () => {
+    // A bucket of 120 requests refills at 2 per second
+    const limited = new Throttler({ concurrency: 200, requestsPerMinute: 120 });
+    const startTimes: number[] = [];
+
+    try {
+      const start = Date.now();
+      await Promise.all(
+        Array.from({ length: 121 }, () =>
+          limited.run(async () => {
+            startTimes.push(Date.now() - start);
+          })
+        )
+      );
+
+      assert.ok(startTimes[119] < 100, "The first 120 tasks should start right away");
+      assert.ok(startTimes[120] >= 450, `The last task started after ${startTimes[120]}ms`);
+    } finally {
+      limited.dispose();
+    }
+  });
+
+  it("should limit the number of tokens used per minute", async () => {
+    // 60,000 tokens per minute refill at 1,000 per second
+    const limited = new Throttler({ tokensPerMinute: 60_000 });
+
+    try {
+      const start = Date.now();
+      await limited.run(async () => "large", { tokens: 59_000 });
+      // The first task used more than it estimated
+      limited.consumeTokens(1_000);
+
+      await limited.run(async () => "small", { tokens: 300 });
+      const elapsed = Date.now() - start;
+      assert.ok(elapsed >= 250 && elapsed < 1_000, `Second task started after ${elapsed}ms`);
+    } finally {
+      limited.dispose();
+    }
+  });
+
+  it("should hold back all tasks until the time given by a rate limit error", async () => {
+    const limited = new Throttler({ concurrency: 2, baseRetryDelayMs: 10 });
+    let attempts = 0;
+
+    try {
+      const start = Date.now();
+      const failing = limited.run(async () => {
+        if (attempts++ === 0) {
+          throw Object.assign(new Error("Too many requests"), {
+            status: 429,
+            headers: { "retry-after": "0.3" }
+          });
+        }
+        return Date.now() - start;
+      });
+
+      await sleep(20);
+      const other = limited.run(async () => Date.now() - start);
+
+      const [retried, held] = await Promise.all([failing, other]);
+      assert.strictEqual(attempts, 2);
+      assert.ok(retried >= 280, `Retried after ${retried}ms`);
+      assert.ok(held >= 280, `Other task started after ${held}ms`);
+    } finally {
+      limited.dispose();
+    }
+  });
+
+  it("should drop a retried task waiting for the rate limit when its signal is aborted", async () => {
+    const limited = new Throttler({
+      requestsPerMinute: 1,
+      baseRetryDelayMs: 1,
+      retryable: isRateLimitError
+    });
+    const controller = new AbortController();
+    let attempts = 0;
+
+    try {
+      const start = Date.now();
+      const task = limited.run(
+        async () => {
+          attempts++;
+          throw Object.assign(new Error("Too many requests"), { status: 429 });
+        },
+        { signal: controller.signal }
+      );
+
+      // The retry waits about a minute for the request limit
+      await sleep(50);
+      controller.abort(new Error("Cancelled"));
+
+      await assert.rejects(task, /Cancelled/);
+      assert.ok(Date.now() - start < 1_000, "The task should be dropped when aborted");
+      assert.strictEqual(attempts, 1);
+    } finally {
+      limited.dispose();
+    }
+  });
+
+  it("should only retry errors accepted by retryable", async () => {
+    const limited = new Throttler({ baseRetryDelayMs: 1, retryable: isRateLimitError });
+    let attempts = 0;
+
+    try {
+      await assert.rejects(
+        limited.run(async () => {
+          attempts++;
+          throw new Error("Invalid request");
+        }),
+        /^Error: Invalid request$/
+      );
+      assert.strictEqual(attempts, 1);
+    } finally {
+      limited.dispose();
+    }
+  });
+
+  it("should remove a queued task when its signal is aborted", async () => {
+    const limited = new Throttler({ concurrency: 1 });
+    const controller = new AbortController();
+
+    try {
+      const running = limited.run(() => sleep(20).then(() => "done"));
+      const queued = limited.run(async () => "never runs", { signal: controller.signal });
+      controller.abort(new Error("Job cancelled"));
+
+      await assert.rejects(queued, /Job cancelled/);
+      assert.strictEqual(limited.queueLength, 0);
+      assert.strictEqual(await running, "done");
+    } finally {
+      limited.dispose();
+    }
+  });
+
+  it("should read retry delays and rate limits from provider errors", () => {
+    const google = Object.assign(new Error("[429 Too Many Requests] Quota exceeded"), {
+      status: "RESOURCE_EXHAUSTED",
+      errorDetails: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "37s" }]
+    });
+    assert.strictEqual(retryAfterMs(google), 37_000);
+    assert.strictEqual(isRateLimitError(google), true);
+
+    const wrapped = new Error("Generation failed", {
+      cause: new Error("Rate limit reached. Please retry in 1.5s.")
+    });
+    assert.strictEqual(retryAfterMs(wrapped), 1_500);
+    assert.strictEqual(isRateLimitError(wrapped), false);
+
+    const fetched = new Error("Request failed", { cause: { response: { status: 429 } } });
+    assert.strictEqual(isRateLimitError(fetched), true);
+
+    // Only statuses are checked, not messages
+    assert.strictEqual(isRateLimitError(new Error("Processed 429 items, then failed")), false);
+
+    assert.strictEqual(retryAfterMs(new Error("Bad request")), undefined);
+    assert.strictEqual(isRateLimitError(new Error("Bad request")), false);
+  });
+
+  it("should tell transient errors from permanent ones", () => {
+    assert.strictEqual(isRetryableError(new Error("Service unavailable")), true);
+    assert.strictEqual(isRetryableError(Object.assign(new Error("Quota"), { status: 429 })), true);
+    assert.strictEqual(isRetryableError(new TypeError("fetch failed")), true);
+
+    assert.strictEqual(isRetryableError(new TypeError("x is not a function")), false);
+    assert.strictEqual(
+      isRetryableError(Object.assign(new Error("Schema mismatch"), { status: "INVALID_ARGUMENT" })),
+      false
+    );
+    assert.strictEqual(isRetryableError(new ResponseCacheMissError("key", "key.json")), false);
+  });
 });
@@ -0,0 +1,130 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { z } from "genkit";
+import { Genthetic } from "../src/genthetic.js";
+import { createOutputWriter, registerOutputWriter } from "../src/writers.js";
+
+describe("Output writers", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "genthetic-writers-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should rewrite JSON files after every batch", () => {
+    const file = join(dir, "out.json");
+    const writer = createOutputWriter({ file });
+
+    writer.write([{ a: 1 }]);
+    assert.deepStrictEqual(JSON.parse(readFileSync(file, "utf8")), [{ a: 1 }]);
+    writer.write([{ a: 2 }]);
+    writer.close();
+    assert.deepStrictEqual(JSON.parse(readFileSync(file, "utf8")), [{ a: 1 }, { a: 2 }]);
+  });
+
+  it("should append JSON lines and move the file into place when closed", () => {
+    const file = join(dir, "out.jsonl");
+    const writer = createOutputWriter({ file });
+
+    writer.write([{ a: 1 }, { a: 2 }]);
+    writer.write([{ a: 3 }]);
+    assert.ok(!existsSync(file), "Output should only appear once finished");
+    writer.close();
+
+    assert.strictEqual(readFileSync(file, "utf8"), '{"a":1}\n{"a":2}\n{"a":3}\n');
+    assert.ok(!existsSync(`${file}.partial`));
+  });
+
+  it("should write gzipped JSON lines", () => {
+    const file = join(dir, "out.ndjson.gz");
+    const writer = createOutputWriter({ file });
+
+    writer.write([{ a: 1 }]);
+    writer.write([{ a: 2 }]);
+    writer.close();
+
+    assert.strictEqual(gunzipSync(readFileSync(file)).toString(), '{"a":1}\n{"a":2}\n');
+  });
+
+  it("should flatten nested fields into CSV columns from the schema", () => {
+    const file = join(dir, "out.csv");
+    const jsonSchema = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        address: { type: "object", properties: { city: { type: "string" } } },
+        tags: { type: "array" },
+        nickname: { type: "string" },
+      },
+    };
+    const writer = createOutputWriter({ file, jsonSchema });
+
+    writer.write([{ name: 'Ann "A", Jr', address: { city: "Oslo" }, tags: ["x", "y"] }]);
+    writer.write([{ name: "Bob", address: { city: "Rome" }, tags: [], nickname: "B" }]);
+    writer.close();
+
+    assert.strictEqual(
+      readFileSync(file, "utf8"),
+      [
+        "name,address.city,tags,nickname",
+        '"Ann ""A"", Jr",Oslo,"[""x"",""y""]",',
+        "Bob,Rome,[],B",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should use an explicit format and reject unknown formats", () => {
+    const file = join(dir, "out.txt");
+    createOutputWriter({ file }, "jsonl").close();
+    assert.strictEqual(readFileSync(file, "utf8"), "");
+
+    assert.throws(() => createOutputWriter({ file }, "xml"), /Unknown output format "xml"/);
+  });
+
+  it("should stream synthesized batches to custom writers in order", async () => {
+    const written: string[][] = [];
+    let closed = false;
+    registerOutputWriter("names", () => ({
+      write: (items) => void written.push(items.map((item) => item.name)),
+      close: () => void (closed = true),
+    }));
+
+    const genthetic = new Genthetic();
+    await genthetic
+      .defineType<{ name: string }>({
+        name: "Person",
+        schema: z.object({ name: z.string() }),
+        batchSize: 2,
+      })
+      .fill({ name: (_, context) => `Person ${context.batchNumber}`, __hints: { secret: 1 } })
+      .synthesize({ count: 3, outFile: join(dir, "people.names") })
+      .complete();
+
+    assert.deepStrictEqual(written, [["Person 0", "Person 0"], ["Person 1"]]);
+    assert.ok(closed);
+  });
+
+  it("should keep completed batches when a job fails", async () => {
+    const file = join(dir, "out.jsonl");
+    const genthetic = new Genthetic();
+    const job = genthetic
+      .defineType<{ batch: number }>({ name: "Item", batchSize: 1 })
+      .stage((batch, context) => {
+        if (context.batchNumber === 2) throw new Error("Broken");
+        return batch.map(() => ({ batch: context.batchNumber }));
+      })
+      .synthesize({ batches: 3, concurrency: 1, maxRetries: 0, outFile: file });
+
+    await assert.rejects(job.complete(), /Broken/);
+    assert.strictEqual(readFileSync(file, "utf8"), '{"batch":0}\n{"batch":1}\n');
+  });
+});